@@ -0,0 +1,234 @@
+import type { Translation } from '../i18n-types';
+
+const ar: Translation = {
+  command: {
+    next: 'الانتقال إلى العنوان التالي',
+    previous: 'الانتقال إلى العنوان السابق',
+    parent: 'الانتقال إلى العنوان الأب',
+    nextSibling: 'الانتقال إلى العنوان التالي من المستوى نفسه',
+    previousSibling: 'الانتقال إلى العنوان السابق من المستوى نفسه',
+    toggle: 'تبديل العناوين المثبتة في هذا الجزء',
+    focus: 'التركيز على العناوين المثبتة',
+    back: 'العودة إلى الموضع قبل آخر انتقال',
+    forward: 'التقدم إلى الموضع بعد الانتقال',
+    syncLinked: 'عرض القسم الحالي في الجزء الآخر',
+  },
+  menu: {
+    copyLink: 'نسخ رابط العنوان',
+    copyMarkdown: 'نسخ القسم بتنسيق Markdown',
+    fold: 'طي القسم',
+    unfold: 'توسيع القسم',
+    foldSiblings: 'طي الأقسام من المستوى نفسه',
+    selectSection: 'تحديد القسم',
+    promote: 'رفع مستوى القسم',
+    demote: 'خفض مستوى القسم',
+    moveUp: 'نقل القسم إلى الأعلى',
+    moveDown: 'نقل القسم إلى الأسفل',
+  },
+  aria: {
+    header: 'العناوين المثبتة',
+    upNext: 'التالي',
+    siblings: 'الأقسام من المستوى نفسه',
+    currentSection: 'القسم الحالي: {path}',
+    linkedSection: 'القسم الحالي في الجزء الآخر',
+  },
+  setting: {
+    errors: {
+      count: 'أدخل عددًا صحيحًا يساوي 0 أو أكبر.',
+      level: 'اختر مستوى من H1 إلى H6.',
+      levelRange: 'لا يمكن أن يكون المستوى الأول أدنى من المستوى الأخير.',
+      durationRange: 'لا يمكن أن يكون الحد الأدنى أطول من الحد الأقصى.',
+      invalid: 'هذه القيمة غير مدعومة.',
+      themeName: 'لا توجد سمة مخصصة بهذا الاسم، ويمكن أن تحتوي أسماء السمات الأخرى على الحروف والأرقام و- و_ فقط.',
+      themeNotFound: 'لا توجد سمة باسم "{name}". إذا كانت من مقتطف CSS، فتحقق من أن المقتطف مفعّل.',
+      themeNameEmpty: 'أدخل اسمًا للسمة.',
+      themeNameTaken: 'توجد سمة مخصصة أخرى بهذا الاسم.',
+      themeNameReserved: 'الاسم "{name}" محجوز للسمات المدمجة.',
+      placeholder: 'ضمّن {placeholder} في موضع العنوان.',
+    },
+    mode: {
+      title: 'الوضع',
+      description:
+        'افتراضيًا، يُعرض العنوان الحالي والعنوان الأب والعناوين التي في مستوى العنوان الأب. في الوضع المختصر، يُعرض العنوان الحالي والعنوان الأب فقط.',
+      default: 'افتراضي',
+      concise: 'مختصر',
+    },
+    layout: {
+      title: 'التخطيط',
+      description: 'عرض العناوين كمكدس عمودي، أو كمسار تنقل في سطر واحد.',
+      stack: 'مكدس',
+      breadcrumb: 'مسار تنقل',
+    },
+    max: {
+      title: 'حد عدد العناوين المعروضة',
+      description: 'الحد الأقصى لعدد العناوين المعروضة. 0 يعني بلا حد.',
+    },
+    levelRange: {
+      title: 'مستويات العناوين',
+      description: 'عرض العناوين من المستوى الأول إلى المستوى الثاني فقط. تُتجاهل العناوين الأخرى.',
+    },
+    pseudoHeadings: {
+      callouts: 'عناوين التنبيهات',
+      calloutsDescription: 'عرض عناوين التنبيهات (Callouts) كعناوين.',
+      blocks: 'معرّفات الكتل',
+      blocksDescription: 'عرض الكتل التي لها معرّف كتلة (^block-id) كعناوين.',
+      level: 'مستوى التنبيهات والكتل',
+      levelDescription: 'مستوى العنوان المستخدم لعناوين التنبيهات ومعرّفات الكتل.',
+    },
+    numbering: {
+      title: 'أرقام الأقسام',
+      description: 'إضافة رقم القسم في المخطط، مثل 3.2.1، قبل العناوين المثبتة. لا تُعدَّل الملاحظة.',
+      startLevel: 'مستوى بداية الترقيم',
+      startLevelDescription: 'مستوى العنوان الذي يُرقَّم أولًا. العناوين ذات المستوى الأعلى تعيد بدء الترقيم.',
+      separator: 'فاصل الترقيم',
+      separatorDescription: 'النص الموضوع بين أجزاء رقم القسم.',
+      skipH1: 'تخطي H1',
+      skipH1Description: 'استبعاد عناوين H1 من الترقيم، مثلًا عندما يكون H1 عنوان الملاحظة.',
+    },
+    scrollBehaviour: {
+      title: 'سلوك التمرير',
+      description: 'اختر بين التمرير الفوري أو السلس',
+      smooth: 'سلس',
+      instant: 'فوري',
+    },
+    scrollEasing: {
+      title: 'تسارع الانتقال',
+      description: 'كيفية تسارع التمرير السلس وتباطئه عند الانتقال إلى عنوان.',
+      linear: 'خطي',
+      easeOutCubic: 'تباطؤ في النهاية (تكعيبي)',
+      easeInOutCubic: 'تسارع ثم تباطؤ (تكعيبي)',
+      easeOutQuint: 'تباطؤ في النهاية (خماسي)',
+      easeInOutSine: 'تسارع ثم تباطؤ (جيبي)',
+    },
+    scrollDuration: {
+      title: 'مدة الانتقال',
+      description:
+        'أقل وأطول مدة بالمللي ثانية. تستغرق الانتقالات الأطول وقتًا أطول. يكون الانتقال فوريًا عندما يطلب النظام تقليل الحركة.',
+      min: 'الأدنى',
+      max: 'الأقصى',
+    },
+    progress: {
+      title: 'تقدم القراءة',
+      description: 'عرض شريط تقدم أسفل العناوين للقسم الحالي، أو للملاحظة كاملة، أو لكليهما.',
+      none: 'بلا',
+      section: 'القسم الحالي',
+      document: 'الملاحظة كاملة',
+      both: 'كلاهما',
+    },
+    upNext: {
+      title: 'التالي',
+      description: 'عدد العناوين التالية المعروضة أسفل الملاحظة. 0 يخفيها.',
+    },
+    autoHide: {
+      source: 'الإخفاء التلقائي أثناء التحرير',
+      sourceDescription: 'إخفاء العناوين المثبتة في عرض التحرير عند التمرير للأسفل، أو أثناء الكتابة، أو كليهما. التمرير للأعلى يعيد إظهارها.',
+      reading: 'الإخفاء التلقائي أثناء القراءة',
+      readingDescription: 'إخفاء العناوين المثبتة في عرض القراءة عند التمرير للأسفل، وإظهارها عند التمرير للأعلى.',
+      off: 'معطل',
+      scroll: 'عند التمرير للأسفل',
+      typing: 'أثناء الكتابة',
+      both: 'كلاهما',
+      delay: 'مهلة الإظهار بعد الكتابة',
+      delayDescription: 'عدد المللي ثانية دون كتابة قبل إظهار العناوين المثبتة مجددًا.',
+    },
+    linkedSections: {
+      title: 'الأقسام المرتبطة',
+      description:
+        'عندما تكون الملاحظة مفتوحة في جزأين، يُميَّز القسم الحالي للجزء الآخر في العناوين المثبتة، ويُضاف زر ينقل الجزء الآخر إلى القسم نفسه.',
+    },
+    theme: {
+      title: 'السمة',
+      description: 'السمات المضمّنة والسمات المخصصة والسمات التي تعرّفها مقتطفات CSS.',
+      flat: 'مسطحة',
+      blur: 'ضبابية',
+      float: 'عائمة',
+    },
+    themes: {
+      title: 'السمات المخصصة',
+      description: 'يمكن لمقتطفات CSS أيضًا تعريف سمة عبر تنسيق الصنف .sticky-headings-theme-<name>.',
+      preview: 'معاينة',
+      previewText: 'تستخدم المعاينة الإعدادات العامة والسمة المحددة.',
+      samples: {
+        chapter: 'البدء',
+        section: 'التثبيت',
+        subsection: 'المتطلبات',
+        next: 'الإعداد',
+      },
+      snippet: 'مقتطف',
+      add: 'إضافة سمة',
+      edit: 'تعديل',
+      remove: 'حذف',
+      defaultName: 'سمة {index}',
+      name: 'الاسم',
+      background: {
+        title: 'الخلفية',
+        solid: 'مصمتة',
+        blur: 'ضبابية',
+        transparent: 'شفافة',
+      },
+      fontSize: 'حجم الخط (px)',
+      padding: 'الحشو (px)',
+      radius: 'نصف قطر الزوايا (px)',
+      colors: 'ألوان العناوين',
+      colorsDescription: 'لون نص كل مستوى من مستويات العناوين.',
+      resetColor: 'استخدام اللون الافتراضي',
+      save: 'حفظ',
+    },
+    outputs: {
+      title: 'العنوان الحالي خارج الملاحظة',
+      statusBar: {
+        title: 'شريط الحالة',
+        description: 'عرض مسار عناوين الملاحظة النشطة في شريط الحالة. انقر عليه للانتقال إلى عنوان آخر.',
+        separator: 'فاصل شريط الحالة',
+        depth: 'عمق شريط الحالة',
+        depthDescription: 'الحد الأقصى لعدد العناوين في مسار شريط الحالة، بدءًا من العنوان الحالي. 0 يعني بلا حد.',
+      },
+      tabTitle: {
+        title: 'عنوان التبويب',
+        description: 'إلحاق القسم الحالي من المستوى الأعلى بعنوان تبويب كل ملاحظة.',
+        format: 'تنسيق عنوان التبويب',
+        formatDescription: 'يُستبدل {placeholder} بعنوان القسم الحالي من المستوى الأعلى.',
+      },
+    },
+    backup: {
+      title: 'التكوين',
+      description: 'تصدير كل الإعدادات، بما فيها الملفات الشخصية والسمات المخصصة، كملف JSON، أو استيراد مثل هذا الملف من خزنة أخرى.',
+      export: 'تصدير',
+      import: 'استيراد',
+      imported: 'تم استيراد إعدادات Sticky Headings. استُبدلت القيم غير الصالحة بالقيم الافتراضية.',
+      importFailed: 'هذا الملف ليس تكوينًا لـ Sticky Headings.',
+    },
+    profiles: {
+      title: 'الملفات الشخصية',
+      description:
+        'تحل الملفات الشخصية محل الإعدادات أعلاه للملاحظات التي تطابق إحدى قواعدها. يُستخدم أول ملف شخصي مطابق في القائمة.',
+      add: 'إضافة ملف شخصي',
+      defaultName: 'ملف شخصي {index}',
+      edit: 'تعديل',
+      save: 'حفظ',
+      moveUp: 'نقل إلى الأعلى',
+      moveDown: 'نقل إلى الأسفل',
+      remove: 'حذف',
+      name: 'الاسم',
+      rules: 'القواعد',
+      rulesDescription: 'يُستخدم الملف الشخصي عندما تطابق أي من قواعده الملاحظة.',
+      addRule: 'إضافة قاعدة',
+      removeRule: 'حذف القاعدة',
+      ruleType: {
+        folder: 'نمط المجلد (glob)',
+        tag: 'وسم',
+        name: 'نمط اسم الملف',
+      },
+      settings: 'الإعدادات',
+      test: {
+        title: 'اختبار القواعد',
+        description: 'أدخل مسار ملاحظة لمعرفة الملف الشخصي المستخدم لها.',
+        match: 'يطابق الملف الشخصي "{name}".',
+        noMatch: 'لا يطابق أي ملف شخصي، تُستخدم الإعدادات العامة.',
+        notFound: 'لم يُعثر على ملاحظة في هذا المسار.',
+      },
+    },
+  },
+};
+
+export default ar;
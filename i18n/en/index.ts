@@ -1,7 +1,51 @@
 import type { BaseTranslation } from '../i18n-types';
 
 const en: BaseTranslation = {
+  command: {
+    next: 'Jump to next heading',
+    previous: 'Jump to previous heading',
+    parent: 'Jump to parent heading',
+    nextSibling: 'Jump to next sibling heading',
+    previousSibling: 'Jump to previous sibling heading',
+    toggle: 'Toggle sticky headings in this pane',
+    focus: 'Focus sticky headings',
+    back: 'Go back to the position before the last jump',
+    forward: 'Go forward to the position after the jump',
+    syncLinked: 'Show the current section in the other pane',
+  },
+  menu: {
+    copyLink: 'Copy link to heading',
+    copyMarkdown: 'Copy section as Markdown',
+    fold: 'Fold section',
+    unfold: 'Unfold section',
+    foldSiblings: 'Fold sibling sections',
+    selectSection: 'Select section',
+    promote: 'Promote section',
+    demote: 'Demote section',
+    moveUp: 'Move section up',
+    moveDown: 'Move section down',
+  },
+  aria: {
+    header: 'Sticky headings',
+    upNext: 'Up next',
+    siblings: 'Sibling sections',
+    currentSection: 'Current section: {path:string}',
+    linkedSection: 'Current section of the other pane',
+  },
   setting: {
+    errors: {
+      count: 'Enter a whole number, 0 or greater.',
+      level: 'Pick a level from H1 to H6.',
+      levelRange: 'The first level can\'t be below the last one.',
+      durationRange: 'The minimum can\'t be longer than the maximum.',
+      invalid: 'This value isn\'t supported.',
+      themeName: 'No custom theme has this name, and the names of other themes can only contain letters, digits, - and _.',
+      themeNotFound: 'No theme named "{name:string}" is available. If it comes from a CSS snippet, check that the snippet is enabled.',
+      themeNameEmpty: 'Enter a name for the theme.',
+      themeNameTaken: 'Another custom theme already has this name.',
+      themeNameReserved: 'The name "{name:string}" is reserved for the built-in themes.',
+      placeholder: 'Include {placeholder:string} where the heading goes.',
+    },
     mode: {
       title: 'Mode',
       description:
@@ -9,19 +53,181 @@ const en: BaseTranslation = {
       default: 'Default',
       concise: 'Concise',
     },
+    layout: {
+      title: 'Layout',
+      description: 'Display the headings as a vertical stack, or as a single line breadcrumb.',
+      stack: 'Stack',
+      breadcrumb: 'Breadcrumb',
+    },
     max: {
       title: 'Display quantity limit',
       description: 'Maximum number of headings that can be displayed. 0 indicates no limit.',
     },
+    levelRange: {
+      title: 'Heading levels',
+      description: 'Only display headings from the first level to the second level. Other headings are ignored.',
+    },
+    pseudoHeadings: {
+      callouts: 'Callout titles',
+      calloutsDescription: 'Display the titles of callouts as headings.',
+      blocks: 'Block IDs',
+      blocksDescription: 'Display blocks with a block ID (^block-id) as headings.',
+      level: 'Callout and block level',
+      levelDescription: 'The heading level used for callout titles and block IDs.',
+    },
+    numbering: {
+      title: 'Section numbers',
+      description: 'Prefix sticky headings with their outline number, such as 3.2.1. The note is not changed.',
+      startLevel: 'Numbering start level',
+      startLevelDescription: 'The heading level numbered first. Higher level headings restart the numbering.',
+      separator: 'Numbering separator',
+      separatorDescription: 'The text placed between the parts of a section number.',
+      skipH1: 'Skip H1',
+      skipH1Description: 'Leave H1 headings out of the numbering, e.g. when the H1 is the title of the note.',
+    },
     scrollBehaviour: {
       title: 'Scroll Behaviour',
       description: 'Choose between instant or smooth scrolling behaviour',
       smooth: 'Smooth',
       instant: 'Instant',
     },
+    scrollEasing: {
+      title: 'Jump easing',
+      description: 'How the smooth scrolling accelerates and slows down when jumping to a heading.',
+      linear: 'Linear',
+      easeOutCubic: 'Ease out (cubic)',
+      easeInOutCubic: 'Ease in and out (cubic)',
+      easeOutQuint: 'Ease out (quint)',
+      easeInOutSine: 'Ease in and out (sine)',
+    },
+    scrollDuration: {
+      title: 'Jump duration',
+      description:
+        'Minimum and maximum duration in milliseconds. Longer jumps take longer. Jumps are instant when the system asks for reduced motion.',
+      min: 'Minimum',
+      max: 'Maximum',
+    },
+    progress: {
+      title: 'Reading progress',
+      description: 'Display a progress bar under the headings for the current section, the whole note, or both.',
+      none: 'None',
+      section: 'Current section',
+      document: 'Whole note',
+      both: 'Both',
+    },
+    upNext: {
+      title: 'Up next',
+      description: 'Number of upcoming headings displayed at the bottom of the note. 0 hides them.',
+    },
+    autoHide: {
+      source: 'Auto-hide while editing',
+      sourceDescription: 'Hide the sticky headings in editing view when scrolling down, while typing, or both. Scrolling up reveals them.',
+      reading: 'Auto-hide while reading',
+      readingDescription: 'Hide the sticky headings in reading view when scrolling down, and reveal them when scrolling up.',
+      off: 'Off',
+      scroll: 'When scrolling down',
+      typing: 'While typing',
+      both: 'Both',
+      delay: 'Reveal delay after typing',
+      delayDescription: 'Milliseconds without typing before the sticky headings are displayed again.',
+    },
+    linkedSections: {
+      title: 'Linked sections',
+      description:
+        'When a note is open in two panes, mark the current section of the other pane in the sticky headings, and add a button that brings the other pane to the same section.',
+    },
     theme: {
       title: 'Theme',
-    }
+      description: 'Built-in themes, custom themes and themes declared by CSS snippets.',
+      flat: 'Flat',
+      blur: 'Blur',
+      float: 'Float',
+    },
+    themes: {
+      title: 'Custom themes',
+      description: 'CSS snippets can also declare a theme by styling the .sticky-headings-theme-<name> class.',
+      preview: 'Preview',
+      previewText: 'The preview uses the global settings and the selected theme.',
+      samples: {
+        chapter: 'Getting started',
+        section: 'Installation',
+        subsection: 'Requirements',
+        next: 'Configuration',
+      },
+      snippet: 'snippet',
+      add: 'Add theme',
+      edit: 'Edit',
+      remove: 'Delete',
+      defaultName: 'Theme {index:number}',
+      name: 'Name',
+      background: {
+        title: 'Background',
+        solid: 'Solid',
+        blur: 'Blur',
+        transparent: 'Transparent',
+      },
+      fontSize: 'Font size (px)',
+      padding: 'Padding (px)',
+      radius: 'Corner radius (px)',
+      colors: 'Heading colors',
+      colorsDescription: 'The text color of each heading level.',
+      resetColor: 'Use the default color',
+      save: 'Save',
+    },
+    outputs: {
+      title: 'Current heading outside the note',
+      statusBar: {
+        title: 'Status bar',
+        description: 'Display the heading path of the active note in the status bar. Click it to jump to another heading.',
+        separator: 'Status bar separator',
+        depth: 'Status bar depth',
+        depthDescription: 'Maximum number of headings in the status bar path, counted from the current heading. 0 indicates no limit.',
+      },
+      tabTitle: {
+        title: 'Tab title',
+        description: 'Append the current top-level section to the tab title of each note.',
+        format: 'Tab title format',
+        formatDescription: '{placeholder:string} is replaced by the title of the current top-level section.',
+      },
+    },
+    backup: {
+      title: 'Configuration',
+      description: 'Export all settings, including profiles and custom themes, as a JSON file, or import such a file from another vault.',
+      export: 'Export',
+      import: 'Import',
+      imported: 'Sticky headings settings imported. Invalid values were replaced with the defaults.',
+      importFailed: 'The file isn\'t a sticky headings configuration.',
+    },
+    profiles: {
+      title: 'Profiles',
+      description:
+        'Profiles replace the settings above for the notes matching one of their rules. The first matching profile in the list is used.',
+      add: 'Add profile',
+      defaultName: 'Profile {index:number}',
+      edit: 'Edit',
+      save: 'Save',
+      moveUp: 'Move up',
+      moveDown: 'Move down',
+      remove: 'Delete',
+      name: 'Name',
+      rules: 'Rules',
+      rulesDescription: 'The profile is used when any of its rules matches the note.',
+      addRule: 'Add rule',
+      removeRule: 'Delete rule',
+      ruleType: {
+        folder: 'Folder glob',
+        tag: 'Tag',
+        name: 'File name pattern',
+      },
+      settings: 'Settings',
+      test: {
+        title: 'Test rules',
+        description: 'Enter the path of a note to see which profile is used for it.',
+        match: 'Matches profile "{name:string}".',
+        noMatch: 'No profile matches, the global settings are used.',
+        notFound: 'No note found at this path.',
+      },
+    },
   },
 };
 
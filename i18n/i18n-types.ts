@@ -1,12 +1,14 @@
 // This file was auto-generated by 'typesafe-i18n'. Any manual changes will be overwritten.
 /* eslint-disable */
-import type { BaseTranslation as BaseTranslationType, LocalizedString } from 'typesafe-i18n'
+import type { BaseTranslation as BaseTranslationType, LocalizedString, RequiredParams } from 'typesafe-i18n'
 
 export type BaseTranslation = BaseTranslationType
 export type BaseLocale = 'en'
 
 export type Locales =
+	| 'ar'
 	| 'en'
+	| 'pt'
 	| 'zh'
 
 export type Translation = RootTranslation
@@ -14,7 +16,163 @@ export type Translation = RootTranslation
 export type Translations = RootTranslation
 
 type RootTranslation = {
+	command: {
+		/**
+		 * J​u​m​p​ ​t​o​ ​n​e​x​t​ ​h​e​a​d​i​n​g
+		 */
+		next: string
+		/**
+		 * J​u​m​p​ ​t​o​ ​p​r​e​v​i​o​u​s​ ​h​e​a​d​i​n​g
+		 */
+		previous: string
+		/**
+		 * J​u​m​p​ ​t​o​ ​p​a​r​e​n​t​ ​h​e​a​d​i​n​g
+		 */
+		parent: string
+		/**
+		 * J​u​m​p​ ​t​o​ ​n​e​x​t​ ​s​i​b​l​i​n​g​ ​h​e​a​d​i​n​g
+		 */
+		nextSibling: string
+		/**
+		 * J​u​m​p​ ​t​o​ ​p​r​e​v​i​o​u​s​ ​s​i​b​l​i​n​g​ ​h​e​a​d​i​n​g
+		 */
+		previousSibling: string
+		/**
+		 * T​o​g​g​l​e​ ​s​t​i​c​k​y​ ​h​e​a​d​i​n​g​s​ ​i​n​ ​t​h​i​s​ ​p​a​n​e
+		 */
+		toggle: string
+		/**
+		 * F​o​c​u​s​ ​s​t​i​c​k​y​ ​h​e​a​d​i​n​g​s
+		 */
+		focus: string
+		/**
+		 * G​o​ ​b​a​c​k​ ​t​o​ ​t​h​e​ ​p​o​s​i​t​i​o​n​ ​b​e​f​o​r​e​ ​t​h​e​ ​l​a​s​t​ ​j​u​m​p
+		 */
+		back: string
+		/**
+		 * G​o​ ​f​o​r​w​a​r​d​ ​t​o​ ​t​h​e​ ​p​o​s​i​t​i​o​n​ ​a​f​t​e​r​ ​t​h​e​ ​j​u​m​p
+		 */
+		forward: string
+		/**
+		 * S​h​o​w​ ​t​h​e​ ​c​u​r​r​e​n​t​ ​s​e​c​t​i​o​n​ ​i​n​ ​t​h​e​ ​o​t​h​e​r​ ​p​a​n​e
+		 */
+		syncLinked: string
+	}
+	menu: {
+		/**
+		 * C​o​p​y​ ​l​i​n​k​ ​t​o​ ​h​e​a​d​i​n​g
+		 */
+		copyLink: string
+		/**
+		 * C​o​p​y​ ​s​e​c​t​i​o​n​ ​a​s​ ​M​a​r​k​d​o​w​n
+		 */
+		copyMarkdown: string
+		/**
+		 * F​o​l​d​ ​s​e​c​t​i​o​n
+		 */
+		fold: string
+		/**
+		 * U​n​f​o​l​d​ ​s​e​c​t​i​o​n
+		 */
+		unfold: string
+		/**
+		 * F​o​l​d​ ​s​i​b​l​i​n​g​ ​s​e​c​t​i​o​n​s
+		 */
+		foldSiblings: string
+		/**
+		 * S​e​l​e​c​t​ ​s​e​c​t​i​o​n
+		 */
+		selectSection: string
+		/**
+		 * P​r​o​m​o​t​e​ ​s​e​c​t​i​o​n
+		 */
+		promote: string
+		/**
+		 * D​e​m​o​t​e​ ​s​e​c​t​i​o​n
+		 */
+		demote: string
+		/**
+		 * M​o​v​e​ ​s​e​c​t​i​o​n​ ​u​p
+		 */
+		moveUp: string
+		/**
+		 * M​o​v​e​ ​s​e​c​t​i​o​n​ ​d​o​w​n
+		 */
+		moveDown: string
+	}
+	aria: {
+		/**
+		 * S​t​i​c​k​y​ ​h​e​a​d​i​n​g​s
+		 */
+		header: string
+		/**
+		 * U​p​ ​n​e​x​t
+		 */
+		upNext: string
+		/**
+		 * S​i​b​l​i​n​g​ ​s​e​c​t​i​o​n​s
+		 */
+		siblings: string
+		/**
+		 * C​u​r​r​e​n​t​ ​s​e​c​t​i​o​n​:​ ​{​p​a​t​h​}
+		 * @param {string} path
+		 */
+		currentSection: RequiredParams<'path'>
+		/**
+		 * C​u​r​r​e​n​t​ ​s​e​c​t​i​o​n​ ​o​f​ ​t​h​e​ ​o​t​h​e​r​ ​p​a​n​e
+		 */
+		linkedSection: string
+	}
 	setting: {
+		errors: {
+			/**
+			 * E​n​t​e​r​ ​a​ ​w​h​o​l​e​ ​n​u​m​b​e​r​,​ ​0​ ​o​r​ ​g​r​e​a​t​e​r​.
+			 */
+			count: string
+			/**
+			 * P​i​c​k​ ​a​ ​l​e​v​e​l​ ​f​r​o​m​ ​H​1​ ​t​o​ ​H​6​.
+			 */
+			level: string
+			/**
+			 * T​h​e​ ​f​i​r​s​t​ ​l​e​v​e​l​ ​c​a​n​'​t​ ​b​e​ ​b​e​l​o​w​ ​t​h​e​ ​l​a​s​t​ ​o​n​e​.
+			 */
+			levelRange: string
+			/**
+			 * T​h​e​ ​m​i​n​i​m​u​m​ ​c​a​n​'​t​ ​b​e​ ​l​o​n​g​e​r​ ​t​h​a​n​ ​t​h​e​ ​m​a​x​i​m​u​m​.
+			 */
+			durationRange: string
+			/**
+			 * T​h​i​s​ ​v​a​l​u​e​ ​i​s​n​'​t​ ​s​u​p​p​o​r​t​e​d​.
+			 */
+			invalid: string
+			/**
+			 * N​o​ ​c​u​s​t​o​m​ ​t​h​e​m​e​ ​h​a​s​ ​t​h​i​s​ ​n​a​m​e​,​ ​a​n​d​ ​t​h​e​ ​n​a​m​e​s​ ​o​f​ ​o​t​h​e​r​ ​t​h​e​m​e​s​ ​c​a​n​ ​o​n​l​y​ ​c​o​n​t​a​i​n​ ​l​e​t​t​e​r​s​,​ ​d​i​g​i​t​s​,​ ​-​ ​a​n​d​ ​_​.
+			 */
+			themeName: string
+			/**
+			 * N​o​ ​t​h​e​m​e​ ​n​a​m​e​d​ ​"​{​n​a​m​e​}​"​ ​i​s​ ​a​v​a​i​l​a​b​l​e​.​ ​I​f​ ​i​t​ ​c​o​m​e​s​ ​f​r​o​m​ ​a​ ​C​S​S​ ​s​n​i​p​p​e​t​,​ ​c​h​e​c​k​ ​t​h​a​t​ ​t​h​e​ ​s​n​i​p​p​e​t​ ​i​s​ ​e​n​a​b​l​e​d​.
+			 * @param {string} name
+			 */
+			themeNotFound: RequiredParams<'name'>
+			/**
+			 * E​n​t​e​r​ ​a​ ​n​a​m​e​ ​f​o​r​ ​t​h​e​ ​t​h​e​m​e​.
+			 */
+			themeNameEmpty: string
+			/**
+			 * A​n​o​t​h​e​r​ ​c​u​s​t​o​m​ ​t​h​e​m​e​ ​a​l​r​e​a​d​y​ ​h​a​s​ ​t​h​i​s​ ​n​a​m​e​.
+			 */
+			themeNameTaken: string
+			/**
+			 * T​h​e​ ​n​a​m​e​ ​"​{​n​a​m​e​}​"​ ​i​s​ ​r​e​s​e​r​v​e​d​ ​f​o​r​ ​t​h​e​ ​b​u​i​l​t​-​i​n​ ​t​h​e​m​e​s​.
+			 * @param {string} name
+			 */
+			themeNameReserved: RequiredParams<'name'>
+			/**
+			 * I​n​c​l​u​d​e​ ​{​p​l​a​c​e​h​o​l​d​e​r​}​ ​w​h​e​r​e​ ​t​h​e​ ​h​e​a​d​i​n​g​ ​g​o​e​s​.
+			 * @param {string} placeholder
+			 */
+			placeholder: RequiredParams<'placeholder'>
+		}
 		mode: {
 			/**
 			 * M​o​d​e
@@ -33,6 +191,24 @@ type RootTranslation = {
 			 */
 			concise: string
 		}
+		layout: {
+			/**
+			 * L​a​y​o​u​t
+			 */
+			title: string
+			/**
+			 * D​i​s​p​l​a​y​ ​t​h​e​ ​h​e​a​d​i​n​g​s​ ​a​s​ ​a​ ​v​e​r​t​i​c​a​l​ ​s​t​a​c​k​,​ ​o​r​ ​a​s​ ​a​ ​s​i​n​g​l​e​ ​l​i​n​e​ ​b​r​e​a​d​c​r​u​m​b​.
+			 */
+			description: string
+			/**
+			 * S​t​a​c​k
+			 */
+			stack: string
+			/**
+			 * B​r​e​a​d​c​r​u​m​b
+			 */
+			breadcrumb: string
+		}
 		max: {
 			/**
 			 * D​i​s​p​l​a​y​ ​q​u​a​n​t​i​t​y​ ​l​i​m​i​t
@@ -43,6 +219,76 @@ type RootTranslation = {
 			 */
 			description: string
 		}
+		levelRange: {
+			/**
+			 * H​e​a​d​i​n​g​ ​l​e​v​e​l​s
+			 */
+			title: string
+			/**
+			 * O​n​l​y​ ​d​i​s​p​l​a​y​ ​h​e​a​d​i​n​g​s​ ​f​r​o​m​ ​t​h​e​ ​f​i​r​s​t​ ​l​e​v​e​l​ ​t​o​ ​t​h​e​ ​s​e​c​o​n​d​ ​l​e​v​e​l​.​ ​O​t​h​e​r​ ​h​e​a​d​i​n​g​s​ ​a​r​e​ ​i​g​n​o​r​e​d​.
+			 */
+			description: string
+		}
+		pseudoHeadings: {
+			/**
+			 * C​a​l​l​o​u​t​ ​t​i​t​l​e​s
+			 */
+			callouts: string
+			/**
+			 * D​i​s​p​l​a​y​ ​t​h​e​ ​t​i​t​l​e​s​ ​o​f​ ​c​a​l​l​o​u​t​s​ ​a​s​ ​h​e​a​d​i​n​g​s​.
+			 */
+			calloutsDescription: string
+			/**
+			 * B​l​o​c​k​ ​I​D​s
+			 */
+			blocks: string
+			/**
+			 * D​i​s​p​l​a​y​ ​b​l​o​c​k​s​ ​w​i​t​h​ ​a​ ​b​l​o​c​k​ ​I​D​ ​(​^​b​l​o​c​k​-​i​d​)​ ​a​s​ ​h​e​a​d​i​n​g​s​.
+			 */
+			blocksDescription: string
+			/**
+			 * C​a​l​l​o​u​t​ ​a​n​d​ ​b​l​o​c​k​ ​l​e​v​e​l
+			 */
+			level: string
+			/**
+			 * T​h​e​ ​h​e​a​d​i​n​g​ ​l​e​v​e​l​ ​u​s​e​d​ ​f​o​r​ ​c​a​l​l​o​u​t​ ​t​i​t​l​e​s​ ​a​n​d​ ​b​l​o​c​k​ ​I​D​s​.
+			 */
+			levelDescription: string
+		}
+		numbering: {
+			/**
+			 * S​e​c​t​i​o​n​ ​n​u​m​b​e​r​s
+			 */
+			title: string
+			/**
+			 * P​r​e​f​i​x​ ​s​t​i​c​k​y​ ​h​e​a​d​i​n​g​s​ ​w​i​t​h​ ​t​h​e​i​r​ ​o​u​t​l​i​n​e​ ​n​u​m​b​e​r​,​ ​s​u​c​h​ ​a​s​ ​3​.​2​.​1​.​ ​T​h​e​ ​n​o​t​e​ ​i​s​ ​n​o​t​ ​c​h​a​n​g​e​d​.
+			 */
+			description: string
+			/**
+			 * N​u​m​b​e​r​i​n​g​ ​s​t​a​r​t​ ​l​e​v​e​l
+			 */
+			startLevel: string
+			/**
+			 * T​h​e​ ​h​e​a​d​i​n​g​ ​l​e​v​e​l​ ​n​u​m​b​e​r​e​d​ ​f​i​r​s​t​.​ ​H​i​g​h​e​r​ ​l​e​v​e​l​ ​h​e​a​d​i​n​g​s​ ​r​e​s​t​a​r​t​ ​t​h​e​ ​n​u​m​b​e​r​i​n​g​.
+			 */
+			startLevelDescription: string
+			/**
+			 * N​u​m​b​e​r​i​n​g​ ​s​e​p​a​r​a​t​o​r
+			 */
+			separator: string
+			/**
+			 * T​h​e​ ​t​e​x​t​ ​p​l​a​c​e​d​ ​b​e​t​w​e​e​n​ ​t​h​e​ ​p​a​r​t​s​ ​o​f​ ​a​ ​s​e​c​t​i​o​n​ ​n​u​m​b​e​r​.
+			 */
+			separatorDescription: string
+			/**
+			 * S​k​i​p​ ​H​1
+			 */
+			skipH1: string
+			/**
+			 * L​e​a​v​e​ ​H​1​ ​h​e​a​d​i​n​g​s​ ​o​u​t​ ​o​f​ ​t​h​e​ ​n​u​m​b​e​r​i​n​g​,​ ​e​.​g​.​ ​w​h​e​n​ ​t​h​e​ ​H​1​ ​i​s​ ​t​h​e​ ​t​i​t​l​e​ ​o​f​ ​t​h​e​ ​n​o​t​e​.
+			 */
+			skipH1Description: string
+		}
 		scrollBehaviour: {
 			/**
 			 * S​c​r​o​l​l​ ​B​e​h​a​v​i​o​u​r
@@ -61,17 +307,601 @@ type RootTranslation = {
 			 */
 			instant: string
 		}
+		scrollEasing: {
+			/**
+			 * J​u​m​p​ ​e​a​s​i​n​g
+			 */
+			title: string
+			/**
+			 * H​o​w​ ​t​h​e​ ​s​m​o​o​t​h​ ​s​c​r​o​l​l​i​n​g​ ​a​c​c​e​l​e​r​a​t​e​s​ ​a​n​d​ ​s​l​o​w​s​ ​d​o​w​n​ ​w​h​e​n​ ​j​u​m​p​i​n​g​ ​t​o​ ​a​ ​h​e​a​d​i​n​g​.
+			 */
+			description: string
+			/**
+			 * L​i​n​e​a​r
+			 */
+			linear: string
+			/**
+			 * E​a​s​e​ ​o​u​t​ ​(​c​u​b​i​c​)
+			 */
+			easeOutCubic: string
+			/**
+			 * E​a​s​e​ ​i​n​ ​a​n​d​ ​o​u​t​ ​(​c​u​b​i​c​)
+			 */
+			easeInOutCubic: string
+			/**
+			 * E​a​s​e​ ​o​u​t​ ​(​q​u​i​n​t​)
+			 */
+			easeOutQuint: string
+			/**
+			 * E​a​s​e​ ​i​n​ ​a​n​d​ ​o​u​t​ ​(​s​i​n​e​)
+			 */
+			easeInOutSine: string
+		}
+		scrollDuration: {
+			/**
+			 * J​u​m​p​ ​d​u​r​a​t​i​o​n
+			 */
+			title: string
+			/**
+			 * M​i​n​i​m​u​m​ ​a​n​d​ ​m​a​x​i​m​u​m​ ​d​u​r​a​t​i​o​n​ ​i​n​ ​m​i​l​l​i​s​e​c​o​n​d​s​.​ ​L​o​n​g​e​r​ ​j​u​m​p​s​ ​t​a​k​e​ ​l​o​n​g​e​r​.​ ​J​u​m​p​s​ ​a​r​e​ ​i​n​s​t​a​n​t​ ​w​h​e​n​ ​t​h​e​ ​s​y​s​t​e​m​ ​a​s​k​s​ ​f​o​r​ ​r​e​d​u​c​e​d​ ​m​o​t​i​o​n​.
+			 */
+			description: string
+			/**
+			 * M​i​n​i​m​u​m
+			 */
+			min: string
+			/**
+			 * M​a​x​i​m​u​m
+			 */
+			max: string
+		}
+		progress: {
+			/**
+			 * R​e​a​d​i​n​g​ ​p​r​o​g​r​e​s​s
+			 */
+			title: string
+			/**
+			 * D​i​s​p​l​a​y​ ​a​ ​p​r​o​g​r​e​s​s​ ​b​a​r​ ​u​n​d​e​r​ ​t​h​e​ ​h​e​a​d​i​n​g​s​ ​f​o​r​ ​t​h​e​ ​c​u​r​r​e​n​t​ ​s​e​c​t​i​o​n​,​ ​t​h​e​ ​w​h​o​l​e​ ​n​o​t​e​,​ ​o​r​ ​b​o​t​h​.
+			 */
+			description: string
+			/**
+			 * N​o​n​e
+			 */
+			none: string
+			/**
+			 * C​u​r​r​e​n​t​ ​s​e​c​t​i​o​n
+			 */
+			section: string
+			/**
+			 * W​h​o​l​e​ ​n​o​t​e
+			 */
+			document: string
+			/**
+			 * B​o​t​h
+			 */
+			both: string
+		}
+		upNext: {
+			/**
+			 * U​p​ ​n​e​x​t
+			 */
+			title: string
+			/**
+			 * N​u​m​b​e​r​ ​o​f​ ​u​p​c​o​m​i​n​g​ ​h​e​a​d​i​n​g​s​ ​d​i​s​p​l​a​y​e​d​ ​a​t​ ​t​h​e​ ​b​o​t​t​o​m​ ​o​f​ ​t​h​e​ ​n​o​t​e​.​ ​0​ ​h​i​d​e​s​ ​t​h​e​m​.
+			 */
+			description: string
+		}
+		autoHide: {
+			/**
+			 * A​u​t​o​-​h​i​d​e​ ​w​h​i​l​e​ ​e​d​i​t​i​n​g
+			 */
+			source: string
+			/**
+			 * H​i​d​e​ ​t​h​e​ ​s​t​i​c​k​y​ ​h​e​a​d​i​n​g​s​ ​i​n​ ​e​d​i​t​i​n​g​ ​v​i​e​w​ ​w​h​e​n​ ​s​c​r​o​l​l​i​n​g​ ​d​o​w​n​,​ ​w​h​i​l​e​ ​t​y​p​i​n​g​,​ ​o​r​ ​b​o​t​h​.​ ​S​c​r​o​l​l​i​n​g​ ​u​p​ ​r​e​v​e​a​l​s​ ​t​h​e​m​.
+			 */
+			sourceDescription: string
+			/**
+			 * A​u​t​o​-​h​i​d​e​ ​w​h​i​l​e​ ​r​e​a​d​i​n​g
+			 */
+			reading: string
+			/**
+			 * H​i​d​e​ ​t​h​e​ ​s​t​i​c​k​y​ ​h​e​a​d​i​n​g​s​ ​i​n​ ​r​e​a​d​i​n​g​ ​v​i​e​w​ ​w​h​e​n​ ​s​c​r​o​l​l​i​n​g​ ​d​o​w​n​,​ ​a​n​d​ ​r​e​v​e​a​l​ ​t​h​e​m​ ​w​h​e​n​ ​s​c​r​o​l​l​i​n​g​ ​u​p​.
+			 */
+			readingDescription: string
+			/**
+			 * O​f​f
+			 */
+			off: string
+			/**
+			 * W​h​e​n​ ​s​c​r​o​l​l​i​n​g​ ​d​o​w​n
+			 */
+			scroll: string
+			/**
+			 * W​h​i​l​e​ ​t​y​p​i​n​g
+			 */
+			typing: string
+			/**
+			 * B​o​t​h
+			 */
+			both: string
+			/**
+			 * R​e​v​e​a​l​ ​d​e​l​a​y​ ​a​f​t​e​r​ ​t​y​p​i​n​g
+			 */
+			delay: string
+			/**
+			 * M​i​l​l​i​s​e​c​o​n​d​s​ ​w​i​t​h​o​u​t​ ​t​y​p​i​n​g​ ​b​e​f​o​r​e​ ​t​h​e​ ​s​t​i​c​k​y​ ​h​e​a​d​i​n​g​s​ ​a​r​e​ ​d​i​s​p​l​a​y​e​d​ ​a​g​a​i​n​.
+			 */
+			delayDescription: string
+		}
+		linkedSections: {
+			/**
+			 * L​i​n​k​e​d​ ​s​e​c​t​i​o​n​s
+			 */
+			title: string
+			/**
+			 * W​h​e​n​ ​a​ ​n​o​t​e​ ​i​s​ ​o​p​e​n​ ​i​n​ ​t​w​o​ ​p​a​n​e​s​,​ ​m​a​r​k​ ​t​h​e​ ​c​u​r​r​e​n​t​ ​s​e​c​t​i​o​n​ ​o​f​ ​t​h​e​ ​o​t​h​e​r​ ​p​a​n​e​ ​i​n​ ​t​h​e​ ​s​t​i​c​k​y​ ​h​e​a​d​i​n​g​s​,​ ​a​n​d​ ​a​d​d​ ​a​ ​b​u​t​t​o​n​ ​t​h​a​t​ ​b​r​i​n​g​s​ ​t​h​e​ ​o​t​h​e​r​ ​p​a​n​e​ ​t​o​ ​t​h​e​ ​s​a​m​e​ ​s​e​c​t​i​o​n​.
+			 */
+			description: string
+		}
 		theme: {
 			/**
 			 * T​h​e​m​e
 			 */
 			title: string
+			/**
+			 * B​u​i​l​t​-​i​n​ ​t​h​e​m​e​s​,​ ​c​u​s​t​o​m​ ​t​h​e​m​e​s​ ​a​n​d​ ​t​h​e​m​e​s​ ​d​e​c​l​a​r​e​d​ ​b​y​ ​C​S​S​ ​s​n​i​p​p​e​t​s​.
+			 */
+			description: string
+			/**
+			 * F​l​a​t
+			 */
+			flat: string
+			/**
+			 * B​l​u​r
+			 */
+			blur: string
+			/**
+			 * F​l​o​a​t
+			 */
+			float: string
+		}
+		themes: {
+			/**
+			 * C​u​s​t​o​m​ ​t​h​e​m​e​s
+			 */
+			title: string
+			/**
+			 * C​S​S​ ​s​n​i​p​p​e​t​s​ ​c​a​n​ ​a​l​s​o​ ​d​e​c​l​a​r​e​ ​a​ ​t​h​e​m​e​ ​b​y​ ​s​t​y​l​i​n​g​ ​t​h​e​ ​.​s​t​i​c​k​y​-​h​e​a​d​i​n​g​s​-​t​h​e​m​e​-​<​n​a​m​e​>​ ​c​l​a​s​s​.
+			 */
+			description: string
+			/**
+			 * P​r​e​v​i​e​w
+			 */
+			preview: string
+			/**
+			 * T​h​e​ ​p​r​e​v​i​e​w​ ​u​s​e​s​ ​t​h​e​ ​g​l​o​b​a​l​ ​s​e​t​t​i​n​g​s​ ​a​n​d​ ​t​h​e​ ​s​e​l​e​c​t​e​d​ ​t​h​e​m​e​.
+			 */
+			previewText: string
+			samples: {
+				/**
+				 * G​e​t​t​i​n​g​ ​s​t​a​r​t​e​d
+				 */
+				chapter: string
+				/**
+				 * I​n​s​t​a​l​l​a​t​i​o​n
+				 */
+				section: string
+				/**
+				 * R​e​q​u​i​r​e​m​e​n​t​s
+				 */
+				subsection: string
+				/**
+				 * C​o​n​f​i​g​u​r​a​t​i​o​n
+				 */
+				next: string
+			}
+			/**
+			 * s​n​i​p​p​e​t
+			 */
+			snippet: string
+			/**
+			 * A​d​d​ ​t​h​e​m​e
+			 */
+			add: string
+			/**
+			 * E​d​i​t
+			 */
+			edit: string
+			/**
+			 * D​e​l​e​t​e
+			 */
+			remove: string
+			/**
+			 * T​h​e​m​e​ ​{​i​n​d​e​x​}
+			 * @param {number} index
+			 */
+			defaultName: RequiredParams<'index'>
+			/**
+			 * N​a​m​e
+			 */
+			name: string
+			background: {
+				/**
+				 * B​a​c​k​g​r​o​u​n​d
+				 */
+				title: string
+				/**
+				 * S​o​l​i​d
+				 */
+				solid: string
+				/**
+				 * B​l​u​r
+				 */
+				blur: string
+				/**
+				 * T​r​a​n​s​p​a​r​e​n​t
+				 */
+				transparent: string
+			}
+			/**
+			 * F​o​n​t​ ​s​i​z​e​ ​(​p​x​)
+			 */
+			fontSize: string
+			/**
+			 * P​a​d​d​i​n​g​ ​(​p​x​)
+			 */
+			padding: string
+			/**
+			 * C​o​r​n​e​r​ ​r​a​d​i​u​s​ ​(​p​x​)
+			 */
+			radius: string
+			/**
+			 * H​e​a​d​i​n​g​ ​c​o​l​o​r​s
+			 */
+			colors: string
+			/**
+			 * T​h​e​ ​t​e​x​t​ ​c​o​l​o​r​ ​o​f​ ​e​a​c​h​ ​h​e​a​d​i​n​g​ ​l​e​v​e​l​.
+			 */
+			colorsDescription: string
+			/**
+			 * U​s​e​ ​t​h​e​ ​d​e​f​a​u​l​t​ ​c​o​l​o​r
+			 */
+			resetColor: string
+			/**
+			 * S​a​v​e
+			 */
+			save: string
+		}
+		outputs: {
+			/**
+			 * C​u​r​r​e​n​t​ ​h​e​a​d​i​n​g​ ​o​u​t​s​i​d​e​ ​t​h​e​ ​n​o​t​e
+			 */
+			title: string
+			statusBar: {
+				/**
+				 * S​t​a​t​u​s​ ​b​a​r
+				 */
+				title: string
+				/**
+				 * D​i​s​p​l​a​y​ ​t​h​e​ ​h​e​a​d​i​n​g​ ​p​a​t​h​ ​o​f​ ​t​h​e​ ​a​c​t​i​v​e​ ​n​o​t​e​ ​i​n​ ​t​h​e​ ​s​t​a​t​u​s​ ​b​a​r​.​ ​C​l​i​c​k​ ​i​t​ ​t​o​ ​j​u​m​p​ ​t​o​ ​a​n​o​t​h​e​r​ ​h​e​a​d​i​n​g​.
+				 */
+				description: string
+				/**
+				 * S​t​a​t​u​s​ ​b​a​r​ ​s​e​p​a​r​a​t​o​r
+				 */
+				separator: string
+				/**
+				 * S​t​a​t​u​s​ ​b​a​r​ ​d​e​p​t​h
+				 */
+				depth: string
+				/**
+				 * M​a​x​i​m​u​m​ ​n​u​m​b​e​r​ ​o​f​ ​h​e​a​d​i​n​g​s​ ​i​n​ ​t​h​e​ ​s​t​a​t​u​s​ ​b​a​r​ ​p​a​t​h​,​ ​c​o​u​n​t​e​d​ ​f​r​o​m​ ​t​h​e​ ​c​u​r​r​e​n​t​ ​h​e​a​d​i​n​g​.​ ​0​ ​i​n​d​i​c​a​t​e​s​ ​n​o​ ​l​i​m​i​t​.
+				 */
+				depthDescription: string
+			}
+			tabTitle: {
+				/**
+				 * T​a​b​ ​t​i​t​l​e
+				 */
+				title: string
+				/**
+				 * A​p​p​e​n​d​ ​t​h​e​ ​c​u​r​r​e​n​t​ ​t​o​p​-​l​e​v​e​l​ ​s​e​c​t​i​o​n​ ​t​o​ ​t​h​e​ ​t​a​b​ ​t​i​t​l​e​ ​o​f​ ​e​a​c​h​ ​n​o​t​e​.
+				 */
+				description: string
+				/**
+				 * T​a​b​ ​t​i​t​l​e​ ​f​o​r​m​a​t
+				 */
+				format: string
+				/**
+				 * {​p​l​a​c​e​h​o​l​d​e​r​}​ ​i​s​ ​r​e​p​l​a​c​e​d​ ​b​y​ ​t​h​e​ ​t​i​t​l​e​ ​o​f​ ​t​h​e​ ​c​u​r​r​e​n​t​ ​t​o​p​-​l​e​v​e​l​ ​s​e​c​t​i​o​n​.
+				 * @param {string} placeholder
+				 */
+				formatDescription: RequiredParams<'placeholder'>
+			}
+		}
+		backup: {
+			/**
+			 * C​o​n​f​i​g​u​r​a​t​i​o​n
+			 */
+			title: string
+			/**
+			 * E​x​p​o​r​t​ ​a​l​l​ ​s​e​t​t​i​n​g​s​,​ ​i​n​c​l​u​d​i​n​g​ ​p​r​o​f​i​l​e​s​ ​a​n​d​ ​c​u​s​t​o​m​ ​t​h​e​m​e​s​,​ ​a​s​ ​a​ ​J​S​O​N​ ​f​i​l​e​,​ ​o​r​ ​i​m​p​o​r​t​ ​s​u​c​h​ ​a​ ​f​i​l​e​ ​f​r​o​m​ ​a​n​o​t​h​e​r​ ​v​a​u​l​t​.
+			 */
+			description: string
+			/**
+			 * E​x​p​o​r​t
+			 */
+			'export': string
+			/**
+			 * I​m​p​o​r​t
+			 */
+			'import': string
+			/**
+			 * S​t​i​c​k​y​ ​h​e​a​d​i​n​g​s​ ​s​e​t​t​i​n​g​s​ ​i​m​p​o​r​t​e​d​.​ ​I​n​v​a​l​i​d​ ​v​a​l​u​e​s​ ​w​e​r​e​ ​r​e​p​l​a​c​e​d​ ​w​i​t​h​ ​t​h​e​ ​d​e​f​a​u​l​t​s​.
+			 */
+			imported: string
+			/**
+			 * T​h​e​ ​f​i​l​e​ ​i​s​n​'​t​ ​a​ ​s​t​i​c​k​y​ ​h​e​a​d​i​n​g​s​ ​c​o​n​f​i​g​u​r​a​t​i​o​n​.
+			 */
+			importFailed: string
+		}
+		profiles: {
+			/**
+			 * P​r​o​f​i​l​e​s
+			 */
+			title: string
+			/**
+			 * P​r​o​f​i​l​e​s​ ​r​e​p​l​a​c​e​ ​t​h​e​ ​s​e​t​t​i​n​g​s​ ​a​b​o​v​e​ ​f​o​r​ ​t​h​e​ ​n​o​t​e​s​ ​m​a​t​c​h​i​n​g​ ​o​n​e​ ​o​f​ ​t​h​e​i​r​ ​r​u​l​e​s​.​ ​T​h​e​ ​f​i​r​s​t​ ​m​a​t​c​h​i​n​g​ ​p​r​o​f​i​l​e​ ​i​n​ ​t​h​e​ ​l​i​s​t​ ​i​s​ ​u​s​e​d​.
+			 */
+			description: string
+			/**
+			 * A​d​d​ ​p​r​o​f​i​l​e
+			 */
+			add: string
+			/**
+			 * P​r​o​f​i​l​e​ ​{​i​n​d​e​x​}
+			 * @param {number} index
+			 */
+			defaultName: RequiredParams<'index'>
+			/**
+			 * E​d​i​t
+			 */
+			edit: string
+			/**
+			 * S​a​v​e
+			 */
+			save: string
+			/**
+			 * M​o​v​e​ ​u​p
+			 */
+			moveUp: string
+			/**
+			 * M​o​v​e​ ​d​o​w​n
+			 */
+			moveDown: string
+			/**
+			 * D​e​l​e​t​e
+			 */
+			remove: string
+			/**
+			 * N​a​m​e
+			 */
+			name: string
+			/**
+			 * R​u​l​e​s
+			 */
+			rules: string
+			/**
+			 * T​h​e​ ​p​r​o​f​i​l​e​ ​i​s​ ​u​s​e​d​ ​w​h​e​n​ ​a​n​y​ ​o​f​ ​i​t​s​ ​r​u​l​e​s​ ​m​a​t​c​h​e​s​ ​t​h​e​ ​n​o​t​e​.
+			 */
+			rulesDescription: string
+			/**
+			 * A​d​d​ ​r​u​l​e
+			 */
+			addRule: string
+			/**
+			 * D​e​l​e​t​e​ ​r​u​l​e
+			 */
+			removeRule: string
+			ruleType: {
+				/**
+				 * F​o​l​d​e​r​ ​g​l​o​b
+				 */
+				folder: string
+				/**
+				 * T​a​g
+				 */
+				tag: string
+				/**
+				 * F​i​l​e​ ​n​a​m​e​ ​p​a​t​t​e​r​n
+				 */
+				name: string
+			}
+			/**
+			 * S​e​t​t​i​n​g​s
+			 */
+			settings: string
+			test: {
+				/**
+				 * T​e​s​t​ ​r​u​l​e​s
+				 */
+				title: string
+				/**
+				 * E​n​t​e​r​ ​t​h​e​ ​p​a​t​h​ ​o​f​ ​a​ ​n​o​t​e​ ​t​o​ ​s​e​e​ ​w​h​i​c​h​ ​p​r​o​f​i​l​e​ ​i​s​ ​u​s​e​d​ ​f​o​r​ ​i​t​.
+				 */
+				description: string
+				/**
+				 * M​a​t​c​h​e​s​ ​p​r​o​f​i​l​e​ ​"​{​n​a​m​e​}​"​.
+				 * @param {string} name
+				 */
+				match: RequiredParams<'name'>
+				/**
+				 * N​o​ ​p​r​o​f​i​l​e​ ​m​a​t​c​h​e​s​,​ ​t​h​e​ ​g​l​o​b​a​l​ ​s​e​t​t​i​n​g​s​ ​a​r​e​ ​u​s​e​d​.
+				 */
+				noMatch: string
+				/**
+				 * N​o​ ​n​o​t​e​ ​f​o​u​n​d​ ​a​t​ ​t​h​i​s​ ​p​a​t​h​.
+				 */
+				notFound: string
+			}
 		}
 	}
 }
 
 export type TranslationFunctions = {
+	command: {
+		/**
+		 * Jump to next heading
+		 */
+		next: () => LocalizedString
+		/**
+		 * Jump to previous heading
+		 */
+		previous: () => LocalizedString
+		/**
+		 * Jump to parent heading
+		 */
+		parent: () => LocalizedString
+		/**
+		 * Jump to next sibling heading
+		 */
+		nextSibling: () => LocalizedString
+		/**
+		 * Jump to previous sibling heading
+		 */
+		previousSibling: () => LocalizedString
+		/**
+		 * Toggle sticky headings in this pane
+		 */
+		toggle: () => LocalizedString
+		/**
+		 * Focus sticky headings
+		 */
+		focus: () => LocalizedString
+		/**
+		 * Go back to the position before the last jump
+		 */
+		back: () => LocalizedString
+		/**
+		 * Go forward to the position after the jump
+		 */
+		forward: () => LocalizedString
+		/**
+		 * Show the current section in the other pane
+		 */
+		syncLinked: () => LocalizedString
+	}
+	menu: {
+		/**
+		 * Copy link to heading
+		 */
+		copyLink: () => LocalizedString
+		/**
+		 * Copy section as Markdown
+		 */
+		copyMarkdown: () => LocalizedString
+		/**
+		 * Fold section
+		 */
+		fold: () => LocalizedString
+		/**
+		 * Unfold section
+		 */
+		unfold: () => LocalizedString
+		/**
+		 * Fold sibling sections
+		 */
+		foldSiblings: () => LocalizedString
+		/**
+		 * Select section
+		 */
+		selectSection: () => LocalizedString
+		/**
+		 * Promote section
+		 */
+		promote: () => LocalizedString
+		/**
+		 * Demote section
+		 */
+		demote: () => LocalizedString
+		/**
+		 * Move section up
+		 */
+		moveUp: () => LocalizedString
+		/**
+		 * Move section down
+		 */
+		moveDown: () => LocalizedString
+	}
+	aria: {
+		/**
+		 * Sticky headings
+		 */
+		header: () => LocalizedString
+		/**
+		 * Up next
+		 */
+		upNext: () => LocalizedString
+		/**
+		 * Sibling sections
+		 */
+		siblings: () => LocalizedString
+		/**
+		 * Current section: {path}
+		 */
+		currentSection: (arg: { path: string }) => LocalizedString
+		/**
+		 * Current section of the other pane
+		 */
+		linkedSection: () => LocalizedString
+	}
 	setting: {
+		errors: {
+			/**
+			 * Enter a whole number, 0 or greater.
+			 */
+			count: () => LocalizedString
+			/**
+			 * Pick a level from H1 to H6.
+			 */
+			level: () => LocalizedString
+			/**
+			 * The first level can't be below the last one.
+			 */
+			levelRange: () => LocalizedString
+			/**
+			 * The minimum can't be longer than the maximum.
+			 */
+			durationRange: () => LocalizedString
+			/**
+			 * This value isn't supported.
+			 */
+			invalid: () => LocalizedString
+			/**
+			 * No custom theme has this name, and the names of other themes can only contain letters, digits, - and _.
+			 */
+			themeName: () => LocalizedString
+			/**
+			 * No theme named "{name}" is available. If it comes from a CSS snippet, check that the snippet is enabled.
+			 */
+			themeNotFound: (arg: { name: string }) => LocalizedString
+			/**
+			 * Enter a name for the theme.
+			 */
+			themeNameEmpty: () => LocalizedString
+			/**
+			 * Another custom theme already has this name.
+			 */
+			themeNameTaken: () => LocalizedString
+			/**
+			 * The name "{name}" is reserved for the built-in themes.
+			 */
+			themeNameReserved: (arg: { name: string }) => LocalizedString
+			/**
+			 * Include {placeholder} where the heading goes.
+			 */
+			placeholder: (arg: { placeholder: string }) => LocalizedString
+		}
 		mode: {
 			/**
 			 * Mode
@@ -90,6 +920,24 @@ export type TranslationFunctions = {
 			 */
 			concise: () => LocalizedString
 		}
+		layout: {
+			/**
+			 * Layout
+			 */
+			title: () => LocalizedString
+			/**
+			 * Display the headings as a vertical stack, or as a single line breadcrumb.
+			 */
+			description: () => LocalizedString
+			/**
+			 * Stack
+			 */
+			stack: () => LocalizedString
+			/**
+			 * Breadcrumb
+			 */
+			breadcrumb: () => LocalizedString
+		}
 		max: {
 			/**
 			 * Display quantity limit
@@ -100,6 +948,76 @@ export type TranslationFunctions = {
 			 */
 			description: () => LocalizedString
 		}
+		levelRange: {
+			/**
+			 * Heading levels
+			 */
+			title: () => LocalizedString
+			/**
+			 * Only display headings from the first level to the second level. Other headings are ignored.
+			 */
+			description: () => LocalizedString
+		}
+		pseudoHeadings: {
+			/**
+			 * Callout titles
+			 */
+			callouts: () => LocalizedString
+			/**
+			 * Display the titles of callouts as headings.
+			 */
+			calloutsDescription: () => LocalizedString
+			/**
+			 * Block IDs
+			 */
+			blocks: () => LocalizedString
+			/**
+			 * Display blocks with a block ID (^block-id) as headings.
+			 */
+			blocksDescription: () => LocalizedString
+			/**
+			 * Callout and block level
+			 */
+			level: () => LocalizedString
+			/**
+			 * The heading level used for callout titles and block IDs.
+			 */
+			levelDescription: () => LocalizedString
+		}
+		numbering: {
+			/**
+			 * Section numbers
+			 */
+			title: () => LocalizedString
+			/**
+			 * Prefix sticky headings with their outline number, such as 3.2.1. The note is not changed.
+			 */
+			description: () => LocalizedString
+			/**
+			 * Numbering start level
+			 */
+			startLevel: () => LocalizedString
+			/**
+			 * The heading level numbered first. Higher level headings restart the numbering.
+			 */
+			startLevelDescription: () => LocalizedString
+			/**
+			 * Numbering separator
+			 */
+			separator: () => LocalizedString
+			/**
+			 * The text placed between the parts of a section number.
+			 */
+			separatorDescription: () => LocalizedString
+			/**
+			 * Skip H1
+			 */
+			skipH1: () => LocalizedString
+			/**
+			 * Leave H1 headings out of the numbering, e.g. when the H1 is the title of the note.
+			 */
+			skipH1Description: () => LocalizedString
+		}
 		scrollBehaviour: {
 			/**
 			 * Scroll Behaviour
@@ -118,11 +1036,439 @@ export type TranslationFunctions = {
 			 */
 			instant: () => LocalizedString
 		}
+		scrollEasing: {
+			/**
+			 * Jump easing
+			 */
+			title: () => LocalizedString
+			/**
+			 * How the smooth scrolling accelerates and slows down when jumping to a heading.
+			 */
+			description: () => LocalizedString
+			/**
+			 * Linear
+			 */
+			linear: () => LocalizedString
+			/**
+			 * Ease out (cubic)
+			 */
+			easeOutCubic: () => LocalizedString
+			/**
+			 * Ease in and out (cubic)
+			 */
+			easeInOutCubic: () => LocalizedString
+			/**
+			 * Ease out (quint)
+			 */
+			easeOutQuint: () => LocalizedString
+			/**
+			 * Ease in and out (sine)
+			 */
+			easeInOutSine: () => LocalizedString
+		}
+		scrollDuration: {
+			/**
+			 * Jump duration
+			 */
+			title: () => LocalizedString
+			/**
+			 * Minimum and maximum duration in milliseconds. Longer jumps take longer. Jumps are instant when the system asks for reduced motion.
+			 */
+			description: () => LocalizedString
+			/**
+			 * Minimum
+			 */
+			min: () => LocalizedString
+			/**
+			 * Maximum
+			 */
+			max: () => LocalizedString
+		}
+		progress: {
+			/**
+			 * Reading progress
+			 */
+			title: () => LocalizedString
+			/**
+			 * Display a progress bar under the headings for the current section, the whole note, or both.
+			 */
+			description: () => LocalizedString
+			/**
+			 * None
+			 */
+			none: () => LocalizedString
+			/**
+			 * Current section
+			 */
+			section: () => LocalizedString
+			/**
+			 * Whole note
+			 */
+			document: () => LocalizedString
+			/**
+			 * Both
+			 */
+			both: () => LocalizedString
+		}
+		upNext: {
+			/**
+			 * Up next
+			 */
+			title: () => LocalizedString
+			/**
+			 * Number of upcoming headings displayed at the bottom of the note. 0 hides them.
+			 */
+			description: () => LocalizedString
+		}
+		autoHide: {
+			/**
+			 * Auto-hide while editing
+			 */
+			source: () => LocalizedString
+			/**
+			 * Hide the sticky headings in editing view when scrolling down, while typing, or both. Scrolling up reveals them.
+			 */
+			sourceDescription: () => LocalizedString
+			/**
+			 * Auto-hide while reading
+			 */
+			reading: () => LocalizedString
+			/**
+			 * Hide the sticky headings in reading view when scrolling down, and reveal them when scrolling up.
+			 */
+			readingDescription: () => LocalizedString
+			/**
+			 * Off
+			 */
+			off: () => LocalizedString
+			/**
+			 * When scrolling down
+			 */
+			scroll: () => LocalizedString
+			/**
+			 * While typing
+			 */
+			typing: () => LocalizedString
+			/**
+			 * Both
+			 */
+			both: () => LocalizedString
+			/**
+			 * Reveal delay after typing
+			 */
+			delay: () => LocalizedString
+			/**
+			 * Milliseconds without typing before the sticky headings are displayed again.
+			 */
+			delayDescription: () => LocalizedString
+		}
+		linkedSections: {
+			/**
+			 * Linked sections
+			 */
+			title: () => LocalizedString
+			/**
+			 * When a note is open in two panes, mark the current section of the other pane in the sticky headings, and add a button that brings the other pane to the same section.
+			 */
+			description: () => LocalizedString
+		}
 		theme: {
 			/**
 			 * Theme
 			 */
 			title: () => LocalizedString
+			/**
+			 * Built-in themes, custom themes and themes declared by CSS snippets.
+			 */
+			description: () => LocalizedString
+			/**
+			 * Flat
+			 */
+			flat: () => LocalizedString
+			/**
+			 * Blur
+			 */
+			blur: () => LocalizedString
+			/**
+			 * Float
+			 */
+			float: () => LocalizedString
+		}
+		themes: {
+			/**
+			 * Custom themes
+			 */
+			title: () => LocalizedString
+			/**
+			 * CSS snippets can also declare a theme by styling the .sticky-headings-theme-<name> class.
+			 */
+			description: () => LocalizedString
+			/**
+			 * Preview
+			 */
+			preview: () => LocalizedString
+			/**
+			 * The preview uses the global settings and the selected theme.
+			 */
+			previewText: () => LocalizedString
+			samples: {
+				/**
+				 * Getting started
+				 */
+				chapter: () => LocalizedString
+				/**
+				 * Installation
+				 */
+				section: () => LocalizedString
+				/**
+				 * Requirements
+				 */
+				subsection: () => LocalizedString
+				/**
+				 * Configuration
+				 */
+				next: () => LocalizedString
+			}
+			/**
+			 * snippet
+			 */
+			snippet: () => LocalizedString
+			/**
+			 * Add theme
+			 */
+			add: () => LocalizedString
+			/**
+			 * Edit
+			 */
+			edit: () => LocalizedString
+			/**
+			 * Delete
+			 */
+			remove: () => LocalizedString
+			/**
+			 * Theme {index}
+			 */
+			defaultName: (arg: { index: number }) => LocalizedString
+			/**
+			 * Name
+			 */
+			name: () => LocalizedString
+			background: {
+				/**
+				 * Background
+				 */
+				title: () => LocalizedString
+				/**
+				 * Solid
+				 */
+				solid: () => LocalizedString
+				/**
+				 * Blur
+				 */
+				blur: () => LocalizedString
+				/**
+				 * Transparent
+				 */
+				transparent: () => LocalizedString
+			}
+			/**
+			 * Font size (px)
+			 */
+			fontSize: () => LocalizedString
+			/**
+			 * Padding (px)
+			 */
+			padding: () => LocalizedString
+			/**
+			 * Corner radius (px)
+			 */
+			radius: () => LocalizedString
+			/**
+			 * Heading colors
+			 */
+			colors: () => LocalizedString
+			/**
+			 * The text color of each heading level.
+			 */
+			colorsDescription: () => LocalizedString
+			/**
+			 * Use the default color
+			 */
+			resetColor: () => LocalizedString
+			/**
+			 * Save
+			 */
+			save: () => LocalizedString
+		}
+		outputs: {
+			/**
+			 * Current heading outside the note
+			 */
+			title: () => LocalizedString
+			statusBar: {
+				/**
+				 * Status bar
+				 */
+				title: () => LocalizedString
+				/**
+				 * Display the heading path of the active note in the status bar. Click it to jump to another heading.
+				 */
+				description: () => LocalizedString
+				/**
+				 * Status bar separator
+				 */
+				separator: () => LocalizedString
+				/**
+				 * Status bar depth
+				 */
+				depth: () => LocalizedString
+				/**
+				 * Maximum number of headings in the status bar path, counted from the current heading. 0 indicates no limit.
+				 */
+				depthDescription: () => LocalizedString
+			}
+			tabTitle: {
+				/**
+				 * Tab title
+				 */
+				title: () => LocalizedString
+				/**
+				 * Append the current top-level section to the tab title of each note.
+				 */
+				description: () => LocalizedString
+				/**
+				 * Tab title format
+				 */
+				format: () => LocalizedString
+				/**
+				 * {placeholder} is replaced by the title of the current top-level section.
+				 */
+				formatDescription: (arg: { placeholder: string }) => LocalizedString
+			}
+		}
+		backup: {
+			/**
+			 * Configuration
+			 */
+			title: () => LocalizedString
+			/**
+			 * Export all settings, including profiles and custom themes, as a JSON file, or import such a file from another vault.
+			 */
+			description: () => LocalizedString
+			/**
+			 * Export
+			 */
+			'export': () => LocalizedString
+			/**
+			 * Import
+			 */
+			'import': () => LocalizedString
+			/**
+			 * Sticky headings settings imported. Invalid values were replaced with the defaults.
+			 */
+			imported: () => LocalizedString
+			/**
+			 * The file isn't a sticky headings configuration.
+			 */
+			importFailed: () => LocalizedString
+		}
+		profiles: {
+			/**
+			 * Profiles
+			 */
+			title: () => LocalizedString
+			/**
+			 * Profiles replace the settings above for the notes matching one of their rules. The first matching profile in the list is used.
+			 */
+			description: () => LocalizedString
+			/**
+			 * Add profile
+			 */
+			add: () => LocalizedString
+			/**
+			 * Profile {index}
+			 */
+			defaultName: (arg: { index: number }) => LocalizedString
+			/**
+			 * Edit
+			 */
+			edit: () => LocalizedString
+			/**
+			 * Save
+			 */
+			save: () => LocalizedString
+			/**
+			 * Move up
+			 */
+			moveUp: () => LocalizedString
+			/**
+			 * Move down
+			 */
+			moveDown: () => LocalizedString
+			/**
+			 * Delete
+			 */
+			remove: () => LocalizedString
+			/**
+			 * Name
+			 */
+			name: () => LocalizedString
+			/**
+			 * Rules
+			 */
+			rules: () => LocalizedString
+			/**
+			 * The profile is used when any of its rules matches the note.
+			 */
+			rulesDescription: () => LocalizedString
+			/**
+			 * Add rule
+			 */
+			addRule: () => LocalizedString
+			/**
+			 * Delete rule
+			 */
+			removeRule: () => LocalizedString
+			ruleType: {
+				/**
+				 * Folder glob
+				 */
+				folder: () => LocalizedString
+				/**
+				 * Tag
+				 */
+				tag: () => LocalizedString
+				/**
+				 * File name pattern
+				 */
+				name: () => LocalizedString
+			}
+			/**
+			 * Settings
+			 */
+			settings: () => LocalizedString
+			test: {
+				/**
+				 * Test rules
+				 */
+				title: () => LocalizedString
+				/**
+				 * Enter the path of a note to see which profile is used for it.
+				 */
+				description: () => LocalizedString
+				/**
+				 * Matches profile "{name}".
+				 */
+				match: (arg: { name: string }) => LocalizedString
+				/**
+				 * No profile matches, the global settings are used.
+				 */
+				noMatch: () => LocalizedString
+				/**
+				 * No note found at this path.
+				 */
+				notFound: () => LocalizedString
+			}
 		}
 	}
 }
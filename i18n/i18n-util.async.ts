@@ -6,7 +6,9 @@ import type { Locales, Translations } from './i18n-types'
 import { loadedFormatters, loadedLocales, locales } from './i18n-util'
 
 const localeTranslationLoaders = {
+	ar: () => import('./ar'),
 	en: () => import('./en'),
+	pt: () => import('./pt'),
 	zh: () => import('./zh'),
 }
 
@@ -5,11 +5,15 @@ import { initFormatters } from './formatters'
 import type { Locales, Translations } from './i18n-types'
 import { loadedFormatters, loadedLocales, locales } from './i18n-util'
 
+import ar from './ar'
 import en from './en'
+import pt from './pt'
 import zh from './zh'
 
 const localeTranslations = {
+	ar,
 	en,
+	pt,
 	zh,
 }
 
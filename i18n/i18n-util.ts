@@ -11,7 +11,9 @@ import type { Formatters, Locales, Translations, TranslationFunctions } from './
 export const baseLocale: Locales = 'en'
 
 export const locales: Locales[] = [
+	'ar',
 	'en',
+	'pt',
 	'zh'
 ]
 
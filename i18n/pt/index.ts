@@ -0,0 +1,235 @@
+import type { Translation } from '../i18n-types';
+
+const pt: Translation = {
+  command: {
+    next: 'Ir para o próximo título',
+    previous: 'Ir para o título anterior',
+    parent: 'Ir para o título pai',
+    nextSibling: 'Ir para o próximo título do mesmo nível',
+    previousSibling: 'Ir para o título anterior do mesmo nível',
+    toggle: 'Alternar os títulos fixos neste painel',
+    focus: 'Focar nos títulos fixos',
+    back: 'Voltar para a posição anterior ao último salto',
+    forward: 'Avançar para a posição após o salto',
+    syncLinked: 'Mostrar a seção atual no outro painel',
+  },
+  menu: {
+    copyLink: 'Copiar link para o título',
+    copyMarkdown: 'Copiar seção como Markdown',
+    fold: 'Recolher seção',
+    unfold: 'Expandir seção',
+    foldSiblings: 'Recolher seções do mesmo nível',
+    selectSection: 'Selecionar seção',
+    promote: 'Promover seção',
+    demote: 'Rebaixar seção',
+    moveUp: 'Mover seção para cima',
+    moveDown: 'Mover seção para baixo',
+  },
+  aria: {
+    header: 'Títulos fixos',
+    upNext: 'A seguir',
+    siblings: 'Seções do mesmo nível',
+    currentSection: 'Seção atual: {path}',
+    linkedSection: 'Seção atual do outro painel',
+  },
+  setting: {
+    errors: {
+      count: 'Digite um número inteiro, 0 ou maior.',
+      level: 'Escolha um nível de H1 a H6.',
+      levelRange: 'O primeiro nível não pode ficar abaixo do último.',
+      durationRange: 'O mínimo não pode ser maior que o máximo.',
+      invalid: 'Este valor não é suportado.',
+      themeName: 'Nenhum tema personalizado tem este nome, e os nomes dos outros temas só podem conter letras, dígitos, - e _.',
+      themeNotFound: 'Nenhum tema chamado "{name}" está disponível. Se ele vem de um snippet CSS, verifique se o snippet está ativado.',
+      themeNameEmpty: 'Digite um nome para o tema.',
+      themeNameTaken: 'Outro tema personalizado já tem este nome.',
+      themeNameReserved: 'O nome "{name}" é reservado para os temas integrados.',
+      placeholder: 'Inclua {placeholder} onde o título deve aparecer.',
+    },
+    mode: {
+      title: 'Modo',
+      description:
+        'Por padrão, exibe o título atual, o título pai e os títulos do mesmo nível do título pai. No modo conciso, exibe apenas o título atual e o título pai.',
+      default: 'Padrão',
+      concise: 'Conciso',
+    },
+    layout: {
+      title: 'Layout',
+      description: 'Exibe os títulos como uma pilha vertical ou como uma trilha de navegação em uma única linha.',
+      stack: 'Pilha',
+      breadcrumb: 'Trilha de navegação',
+    },
+    max: {
+      title: 'Limite de títulos exibidos',
+      description: 'Número máximo de títulos exibidos. 0 indica sem limite.',
+    },
+    levelRange: {
+      title: 'Níveis de título',
+      description: 'Exibe apenas os títulos do primeiro ao segundo nível. Os outros títulos são ignorados.',
+    },
+    pseudoHeadings: {
+      callouts: 'Títulos de callouts',
+      calloutsDescription: 'Exibe os títulos dos callouts como títulos.',
+      blocks: 'IDs de bloco',
+      blocksDescription: 'Exibe os blocos com um ID de bloco (^block-id) como títulos.',
+      level: 'Nível de callouts e blocos',
+      levelDescription: 'O nível de título usado para títulos de callouts e IDs de bloco.',
+    },
+    numbering: {
+      title: 'Números de seção',
+      description: 'Prefixa os títulos fixos com o número no sumário, como 3.2.1. A nota não é alterada.',
+      startLevel: 'Nível inicial da numeração',
+      startLevelDescription: 'O nível de título numerado primeiro. Títulos de nível superior reiniciam a numeração.',
+      separator: 'Separador da numeração',
+      separatorDescription: 'O texto colocado entre as partes de um número de seção.',
+      skipH1: 'Ignorar H1',
+      skipH1Description: 'Deixa os títulos H1 fora da numeração, por exemplo quando o H1 é o título da nota.',
+    },
+    scrollBehaviour: {
+      title: 'Comportamento da rolagem',
+      description: 'Escolha entre rolagem instantânea ou suave',
+      smooth: 'Suave',
+      instant: 'Instantânea',
+    },
+    scrollEasing: {
+      title: 'Suavização do salto',
+      description: 'Como a rolagem suave acelera e desacelera ao saltar para um título.',
+      linear: 'Linear',
+      easeOutCubic: 'Desaceleração (cúbica)',
+      easeInOutCubic: 'Aceleração e desaceleração (cúbica)',
+      easeOutQuint: 'Desaceleração (quíntica)',
+      easeInOutSine: 'Aceleração e desaceleração (senoidal)',
+    },
+    scrollDuration: {
+      title: 'Duração do salto',
+      description:
+        'Duração mínima e máxima em milissegundos. Saltos mais longos demoram mais. Os saltos são instantâneos quando o sistema pede movimento reduzido.',
+      min: 'Mínimo',
+      max: 'Máximo',
+    },
+    progress: {
+      title: 'Progresso de leitura',
+      description: 'Exibe uma barra de progresso sob os títulos para a seção atual, para a nota inteira ou para ambas.',
+      none: 'Nenhum',
+      section: 'Seção atual',
+      document: 'Nota inteira',
+      both: 'Ambos',
+    },
+    upNext: {
+      title: 'A seguir',
+      description: 'Número de títulos seguintes exibidos na parte inferior da nota. 0 os oculta.',
+    },
+    autoHide: {
+      source: 'Ocultar automaticamente ao editar',
+      sourceDescription: 'Oculta os títulos fixos no modo de edição ao rolar para baixo, ao digitar ou em ambos os casos. Rolar para cima os exibe novamente.',
+      reading: 'Ocultar automaticamente ao ler',
+      readingDescription: 'Oculta os títulos fixos no modo de leitura ao rolar para baixo e os exibe ao rolar para cima.',
+      off: 'Desativado',
+      scroll: 'Ao rolar para baixo',
+      typing: 'Ao digitar',
+      both: 'Ambos',
+      delay: 'Atraso para exibir após digitar',
+      delayDescription: 'Milissegundos sem digitar antes de os títulos fixos serem exibidos novamente.',
+    },
+    linkedSections: {
+      title: 'Seções vinculadas',
+      description:
+        'Quando uma nota está aberta em dois painéis, marca a seção atual do outro painel nos títulos fixos e adiciona um botão que leva o outro painel para a mesma seção.',
+    },
+    theme: {
+      title: 'Tema',
+      description: 'Temas integrados, temas personalizados e temas declarados por snippets CSS.',
+      flat: 'Plano',
+      blur: 'Desfocado',
+      float: 'Flutuante',
+    },
+    themes: {
+      title: 'Temas personalizados',
+      description: 'Snippets CSS também podem declarar um tema estilizando a classe .sticky-headings-theme-<name>.',
+      preview: 'Pré-visualização',
+      previewText: 'A pré-visualização usa as configurações globais e o tema selecionado.',
+      samples: {
+        chapter: 'Primeiros passos',
+        section: 'Instalação',
+        subsection: 'Requisitos',
+        next: 'Configuração',
+      },
+      snippet: 'snippet',
+      add: 'Adicionar tema',
+      edit: 'Editar',
+      remove: 'Excluir',
+      defaultName: 'Tema {index}',
+      name: 'Nome',
+      background: {
+        title: 'Fundo',
+        solid: 'Sólido',
+        blur: 'Desfocado',
+        transparent: 'Transparente',
+      },
+      fontSize: 'Tamanho da fonte (px)',
+      padding: 'Espaçamento interno (px)',
+      radius: 'Raio dos cantos (px)',
+      colors: 'Cores dos títulos',
+      colorsDescription: 'A cor do texto de cada nível de título.',
+      resetColor: 'Usar a cor padrão',
+      save: 'Salvar',
+    },
+    outputs: {
+      title: 'Título atual fora da nota',
+      statusBar: {
+        title: 'Barra de status',
+        description: 'Exibe o caminho de títulos da nota ativa na barra de status. Clique nele para ir para outro título.',
+        separator: 'Separador da barra de status',
+        depth: 'Profundidade da barra de status',
+        depthDescription:
+          'Número máximo de títulos no caminho da barra de status, contados a partir do título atual. 0 indica sem limite.',
+      },
+      tabTitle: {
+        title: 'Título da aba',
+        description: 'Acrescenta a seção de nível superior atual ao título da aba de cada nota.',
+        format: 'Formato do título da aba',
+        formatDescription: '{placeholder} é substituído pelo título da seção de nível superior atual.',
+      },
+    },
+    backup: {
+      title: 'Configuração',
+      description: 'Exporte todas as configurações, incluindo perfis e temas personalizados, como um arquivo JSON, ou importe esse arquivo de outro cofre.',
+      export: 'Exportar',
+      import: 'Importar',
+      imported: 'Configurações do Sticky Headings importadas. Valores inválidos foram substituídos pelos padrões.',
+      importFailed: 'O arquivo não é uma configuração do Sticky Headings.',
+    },
+    profiles: {
+      title: 'Perfis',
+      description:
+        'Os perfis substituem as configurações acima para as notas que correspondem a uma de suas regras. O primeiro perfil correspondente da lista é usado.',
+      add: 'Adicionar perfil',
+      defaultName: 'Perfil {index}',
+      edit: 'Editar',
+      save: 'Salvar',
+      moveUp: 'Mover para cima',
+      moveDown: 'Mover para baixo',
+      remove: 'Excluir',
+      name: 'Nome',
+      rules: 'Regras',
+      rulesDescription: 'O perfil é usado quando qualquer uma de suas regras corresponde à nota.',
+      addRule: 'Adicionar regra',
+      removeRule: 'Excluir regra',
+      ruleType: {
+        folder: 'Glob de pasta',
+        tag: 'Tag',
+        name: 'Padrão de nome de arquivo',
+      },
+      settings: 'Configurações',
+      test: {
+        title: 'Testar regras',
+        description: 'Digite o caminho de uma nota para ver qual perfil é usado para ela.',
+        match: 'Corresponde ao perfil "{name}".',
+        noMatch: 'Nenhum perfil corresponde, as configurações globais são usadas.',
+        notFound: 'Nenhuma nota encontrada neste caminho.',
+      },
+    },
+  },
+};
+
+export default pt;
@@ -1,26 +1,229 @@
 import type { Translation } from '../i18n-types';
 
 const zh: Translation = {
+  command: {
+    next: '跳转到下一个标题',
+    previous: '跳转到上一个标题',
+    parent: '跳转到父标题',
+    nextSibling: '跳转到下一个同级标题',
+    previousSibling: '跳转到上一个同级标题',
+    toggle: '在当前窗格中切换粘性标题',
+    focus: '聚焦到粘性标题',
+    back: '返回到上次跳转前的位置',
+    forward: '前进到跳转后的位置',
+    syncLinked: '在另一个窗格中显示当前章节',
+  },
+  menu: {
+    copyLink: '复制标题链接',
+    copyMarkdown: '复制章节 Markdown',
+    fold: '折叠章节',
+    unfold: '展开章节',
+    foldSiblings: '折叠同级章节',
+    selectSection: '选中章节',
+    promote: '提升章节级别',
+    demote: '降低章节级别',
+    moveUp: '上移章节',
+    moveDown: '下移章节',
+  },
+  aria: {
+    header: '粘性标题',
+    upNext: '即将到来',
+    siblings: '同级章节',
+    currentSection: '当前章节：{path}',
+    linkedSection: '另一个窗格的当前章节',
+  },
   setting: {
+    errors: {
+      count: '请输入大于或等于 0 的整数。',
+      level: '请选择 H1 到 H6 之间的级别。',
+      levelRange: '起始级别不能低于结束级别。',
+      durationRange: '最短时长不能大于最长时长。',
+      invalid: '不支持该值。',
+      themeName: '没有使用此名称的自定义主题，其他主题的名称只能包含字母、数字、- 和 _。',
+      themeNotFound: '没有名为「{name}」的主题。如果它来自 CSS 片段，请检查该片段是否已启用。',
+      themeNameEmpty: '请输入主题名称。',
+      themeNameTaken: '已有其他自定义主题使用此名称。',
+      themeNameReserved: '名称「{name}」已保留给内置主题。',
+      placeholder: '请在标题所在位置包含 {placeholder}。',
+    },
     mode: {
       title: '模式',
       description: '默认情况下，显示当前标题、父标题和父标题的兄弟标题。简洁模式下，仅显示当前标题和父标题。',
       default: '默认',
       concise: '简洁',
     },
+    layout: {
+      title: '布局',
+      description: '以纵向堆叠或单行面包屑的形式显示标题。',
+      stack: '堆叠',
+      breadcrumb: '面包屑',
+    },
     max: {
       title: '显示数量限制',
       description: '最大显示标题数量，0 表示不限制。',
     },
+    levelRange: {
+      title: '标题级别',
+      description: '仅显示从第一个级别到第二个级别的标题，忽略其他标题。',
+    },
+    pseudoHeadings: {
+      callouts: '标注标题',
+      calloutsDescription: '将标注（Callout）的标题显示为标题。',
+      blocks: '块 ID',
+      blocksDescription: '将带有块 ID（^block-id）的块显示为标题。',
+      level: '标注与块的级别',
+      levelDescription: '标注标题与块 ID 使用的标题级别。',
+    },
+    numbering: {
+      title: '章节编号',
+      description: '在悬浮标题前显示大纲编号，例如 3.2.1。不会修改笔记内容。',
+      startLevel: '编号起始级别',
+      startLevelDescription: '从该级别的标题开始编号，更高级别的标题会重新开始编号。',
+      separator: '编号分隔符',
+      separatorDescription: '章节编号各部分之间的文本。',
+      skipH1: '跳过一级标题',
+      skipH1Description: '一级标题不参与编号，例如一级标题是笔记标题时。',
+    },
     scrollBehaviour: {
       title: '滚动效果',
       description: '选择滚动效果',
       smooth: '平滑滚动',
       instant: '即时滚动',
     },
+    scrollEasing: {
+      title: '跳转缓动',
+      description: '跳转到标题时平滑滚动的加速与减速方式。',
+      linear: '线性',
+      easeOutCubic: '缓出（三次）',
+      easeInOutCubic: '缓入缓出（三次）',
+      easeOutQuint: '缓出（五次）',
+      easeInOutSine: '缓入缓出（正弦）',
+    },
+    scrollDuration: {
+      title: '跳转时长',
+      description: '最短与最长时长（毫秒），跳转距离越长耗时越长。系统要求减少动态效果时将立即跳转。',
+      min: '最短',
+      max: '最长',
+    },
+    progress: {
+      title: '阅读进度',
+      description: '在标题下方显示当前章节、整篇笔记或两者的进度条。',
+      none: '不显示',
+      section: '当前章节',
+      document: '整篇笔记',
+      both: '全部',
+    },
+    upNext: {
+      title: '即将到来',
+      description: '在笔记底部显示的后续标题数量，0 表示不显示。',
+    },
+    autoHide: {
+      source: '编辑时自动隐藏',
+      sourceDescription: '在编辑视图中向下滚动、输入时或两者皆是时隐藏粘性标题，向上滚动时重新显示。',
+      reading: '阅读时自动隐藏',
+      readingDescription: '在阅读视图中向下滚动时隐藏粘性标题，向上滚动时重新显示。',
+      off: '关闭',
+      scroll: '向下滚动时',
+      typing: '输入时',
+      both: '两者',
+      delay: '输入后重新显示的延迟',
+      delayDescription: '停止输入多少毫秒后重新显示粘性标题。',
+    },
+    linkedSections: {
+      title: '关联章节',
+      description: '当同一笔记在两个窗格中打开时，在悬浮标题中标出另一个窗格的当前章节，并添加一个按钮，让另一个窗格跳转到同一章节。',
+    },
     theme: {
       title: '外观主题',
-    }
+      description: '内置主题、自定义主题以及 CSS 片段声明的主题。',
+      flat: '平铺',
+      blur: '模糊',
+      float: '悬浮',
+    },
+    themes: {
+      title: '自定义主题',
+      description: 'CSS 片段也可以通过为 .sticky-headings-theme-<name> 类编写样式来声明主题。',
+      preview: '预览',
+      previewText: '预览使用全局设置与所选主题。',
+      samples: {
+        chapter: '快速开始',
+        section: '安装',
+        subsection: '环境要求',
+        next: '配置',
+      },
+      snippet: 'CSS 片段',
+      add: '添加主题',
+      edit: '编辑',
+      remove: '删除',
+      defaultName: '主题 {index}',
+      name: '名称',
+      background: {
+        title: '背景',
+        solid: '纯色',
+        blur: '模糊',
+        transparent: '透明',
+      },
+      fontSize: '字号（px）',
+      padding: '内边距（px）',
+      radius: '圆角（px）',
+      colors: '标题颜色',
+      colorsDescription: '各级标题的文字颜色。',
+      resetColor: '使用默认颜色',
+      save: '保存',
+    },
+    outputs: {
+      title: '在笔记外显示当前标题',
+      statusBar: {
+        title: '状态栏',
+        description: '在状态栏中显示当前笔记的标题路径，点击可跳转到其他标题。',
+        separator: '状态栏分隔符',
+        depth: '状态栏层级',
+        depthDescription: '状态栏路径中显示的最大标题数量，从当前标题开始计算，0 表示不限制。',
+      },
+      tabTitle: {
+        title: '标签页标题',
+        description: '在每个笔记的标签页标题后追加当前的顶级章节。',
+        format: '标签页标题格式',
+        formatDescription: '{placeholder} 会被替换为当前顶级章节的标题。',
+      },
+    },
+    backup: {
+      title: '配置',
+      description: '将所有设置（包括配置方案和自定义主题）导出为 JSON 文件，或从其他仓库导入此类文件。',
+      export: '导出',
+      import: '导入',
+      imported: '已导入 Sticky Headings 设置，无效的值已替换为默认值。',
+      importFailed: '该文件不是 Sticky Headings 配置。',
+    },
+    profiles: {
+      title: '配置方案',
+      description: '对于匹配方案规则的笔记，使用方案中的设置替代以上设置。按列表顺序使用第一个匹配的方案。',
+      add: '添加方案',
+      defaultName: '方案 {index}',
+      edit: '编辑',
+      save: '保存',
+      moveUp: '上移',
+      moveDown: '下移',
+      remove: '删除',
+      name: '名称',
+      rules: '规则',
+      rulesDescription: '任一规则匹配笔记时使用该方案。',
+      addRule: '添加规则',
+      removeRule: '删除规则',
+      ruleType: {
+        folder: '文件夹通配符',
+        tag: '标签',
+        name: '文件名模式',
+      },
+      settings: '设置',
+      test: {
+        title: '测试规则',
+        description: '输入笔记路径，查看该笔记使用的方案。',
+        match: '匹配方案“{name}”。',
+        noMatch: '没有匹配的方案，使用全局设置。',
+        notFound: '未找到该路径的笔记。',
+      },
+    },
   },
 };
 
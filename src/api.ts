@@ -0,0 +1,20 @@
+import type { WorkspaceLeaf } from 'obsidian';
+import type StickyHeadingsPlugin from './plugin';
+import type { StickyHeadingsApi } from './types';
+
+export function createApi(plugin: StickyHeadingsPlugin): StickyHeadingsApi {
+  const getEntry = (leaf: WorkspaceLeaf) => (leaf.id ? plugin.fileResolveMap.get(leaf.id) : undefined);
+  return {
+    getHeadingStack: leaf => getEntry(leaf)?.stack ?? [],
+    getAllHeadings: leaf => getEntry(leaf)?.headings ?? [],
+    jumpTo: async (leaf, headingIndex) => {
+      const item = getEntry(leaf);
+      const heading = item?.headings.find(({ index }) => index === headingIndex);
+      if (!item || !heading) {
+        return false;
+      }
+      await item.headingEl.jumpTo(item.view, heading);
+      return true;
+    },
+  };
+}
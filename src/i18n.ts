@@ -1,5 +1,5 @@
 import type { Locales } from '../i18n/i18n-types';
-import { i18n } from '../i18n/i18n-util';
+import { baseLocale, i18n, locales } from '../i18n/i18n-util';
 import { loadAllLocales } from '../i18n/i18n-util.sync';
 
 loadAllLocales();
@@ -12,14 +12,31 @@ declare global {
   }
 }
 
-let locale: Locales = 'en';
+const rtlLanguages = ['ar', 'fa', 'he', 'ur'];
+
+// `pt-BR` tries `pt-BR`, then `pt`, then the base locale.
+export function resolveLocale(tag: string): Locales {
+  const parts = tag.replace(/_/g, '-').toLowerCase().split('-');
+  for (let i = parts.length; i > 0; i--) {
+    const candidate = parts.slice(0, i).join('-');
+    const locale = locales.find(item => item.toLowerCase() === candidate);
+    if (locale) {
+      return locale;
+    }
+  }
+  return baseLocale;
+}
+
+let language = '';
 try {
-  locale = (window.i18next.language || '').startsWith('zh') ? 'zh' : 'en';
+  language = window.i18next.language || '';
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
 } catch (e) {
   /* empty */
 }
 
-const L = i18n()[locale];
+export const uiDirection = rtlLanguages.includes(language.toLowerCase().split(/[-_]/)[0]) ? 'rtl' : 'ltr';
+
+const L = i18n()[resolveLocale(language)];
 
 export default L;
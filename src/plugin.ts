@@ -1,31 +1,65 @@
 /* eslint-disable @typescript-eslint/no-unnecessary-condition */
 import type { TFile } from 'obsidian';
-import { MarkdownView, Plugin } from 'obsidian';
-import type { FileResolveEntry, Heading, ISetting } from './types';
-import StickyHeadingsSetting, { defaultSettings } from './settings';
+import { MarkdownView, Menu, Notice, Plugin } from 'obsidian';
+import type {
+  FileResolveEntry,
+  Heading,
+  HeadingTitle,
+  IPluginSetting,
+  ISetting,
+  StickyHeadingsApi,
+} from './types';
+import StickyHeadingsSetting, { defaultSettings, parseSettings, pickSettings } from './settings';
 import {
   getContainerEl,
-  getHeadings,
+  getHeadingsWithPseudo,
   getScroller,
+  isEditMode,
   isEditSourceMode,
+  getTextDirection,
   isMarkdownFile,
-  parseMarkdown,
+  renderHeadingTitle,
 } from './utils/obsidian';
 
 import StickyHeaderComponent from './stickyHeader';
-import getShownHeadings, { trivial } from './utils/getShownHeadings';
-import { throttle } from 'lodash';
+import type { HistoryDirection } from './stickyHeader';
+import getShownHeadings, { filterByLevel, trivial } from './utils/getShownHeadings';
+import { formatHeadingPath, formatTabSuffix, getHeadingPath } from './utils/headingPath';
+import { isEqual, throttle } from 'lodash';
 import { calcIndentLevels } from './utils/calcIndentLevels';
 import { makeExpectedHeadings } from './utils/makeExpectedHeadings';
+import { calcProgress } from './utils/calcProgress';
+import {
+  createOffsetIndex,
+  isOffsetIndexStale,
+  lookupHeadingsInView,
+  lookupUpcomingHeadings,
+} from './utils/offsetIndex';
+import { getFrontmatterSettings, mergeFrontmatterSettings } from './utils/frontmatter';
+import { findProfile } from './utils/profiles';
+import { findSameHeading, getCurrentSection } from './utils/linkedSections';
+import { getSectionNumbers } from './utils/sectionNumbers';
+import { findCustomTheme, getThemeOptions } from './utils/themes';
+import { getSettingErrors } from './utils/settingsSchema';
+import type { NavigationAction } from './utils/navigation';
+import { getCurrentHeadingIndex, getNavigationTarget } from './utils/navigation';
+import L from './i18n';
+import { createApi } from './api';
 
 type FileResolveMap = Map<string, FileResolveEntry>;
 
+const getStackKey = (stack: Heading[]) => stack.map(heading => `${heading.index}:${heading.heading}`).join('\n');
+
 export default class StickyHeadingsPlugin extends Plugin {
-  settings: ISetting = defaultSettings;
+  settings: IPluginSetting = defaultSettings;
   headingEl: StickyHeaderComponent | undefined;
   fileResolveMap: FileResolveMap = new Map();
+  api: StickyHeadingsApi = createApi(this);
+  statusBarEl: HTMLElement | undefined;
 
-  markdownCache: Record<string, string> = {};
+  // Rendered titles of the open notes, keyed by the source path and then the heading text.
+  // Each note only keeps the titles of its current headings, and notes that are no longer open are dropped whole.
+  titleCache = new Map<string, Map<string, HeadingTitle>>();
 
   detectPosition = throttle(
     (event: Event, scroller: HTMLElement, item: FileResolveEntry) => {
@@ -45,8 +79,15 @@ export default class StickyHeadingsPlugin extends Plugin {
   async onload() {
     await this.loadSettings();
 
+    this.statusBarEl = this.addStatusBarItem();
+    this.statusBarEl.addClass('sticky-headings-status-bar', 'mod-clickable');
+    this.registerDomEvent(this.statusBarEl, 'click', event => {
+      this.openJumpMenu(event);
+    });
+
     this.registerEvent(
       this.app.workspace.on('active-leaf-change', () => {
+        this.updateStatusBar();
         // timeout to wait for cm.editor to load
         setTimeout(() => {
           this.checkFileResolveMap();
@@ -54,6 +95,34 @@ export default class StickyHeadingsPlugin extends Plugin {
       })
     );
 
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        this.clearTitleCache(oldPath);
+        // renaming a folder moves every note inside it, so re-resolve the profiles of all entries
+        this.fileResolveMap.forEach(item => {
+          this.applyFileSettings(item);
+          this.setHeadingsInView(getScroller(item.view), item);
+        });
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on('delete', file => {
+        this.clearTitleCache(file.path);
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on('editor-change', (editor, info) => {
+        if (info instanceof MarkdownView && info.leaf.id) {
+          const item = this.fileResolveMap.get(info.leaf.id);
+          if (item) {
+            this.handleTyping(item);
+          }
+        }
+      })
+    );
+
     this.registerEvent(
       this.app.metadataCache.on('resolve', file => {
         this.handleResolve(file);
@@ -62,6 +131,9 @@ export default class StickyHeadingsPlugin extends Plugin {
 
     this.checkFileResolveMap();
 
+    this.registerCommands();
+    this.app.workspace.onLayoutReady(() => this.checkThemes());
+
     this.addSettingTab(new StickyHeadingsSetting(this.app, this));
   }
 
@@ -72,9 +144,14 @@ export default class StickyHeadingsPlugin extends Plugin {
       if (id) {
         const file = view.getFile();
         if (file && isMarkdownFile(file)) {
-          const headings = await this.retrieveHeadings(file, view);
+          const { settings, enabled } = this.resolveFileSettings(file);
+          const headings = await this.retrieveHeadings(file, view, settings);
           if (!this.fileResolveMap.has(id)) {
-            const headingEl = new StickyHeaderComponent(view, this.settings);
+            const headingEl = new StickyHeaderComponent(
+              view,
+              settings,
+              findCustomTheme(this.settings.customThemes, settings.theme)
+            );
             // eslint-disable-next-line @typescript-eslint/no-misused-promises
             const layoutChangeEvent = this.app.workspace.on('layout-change', this.handleComponentUpdate.bind(this));
             this.fileResolveMap.set(id, {
@@ -86,6 +163,10 @@ export default class StickyHeadingsPlugin extends Plugin {
               headingEl,
               layoutChangeEvent,
               editMode: isEditSourceMode(view),
+              settings,
+              enabled,
+              paneHidden: false,
+              stack: [],
             });
             this.registerEvent(layoutChangeEvent);
           } else {
@@ -93,7 +174,18 @@ export default class StickyHeadingsPlugin extends Plugin {
             if (item) {
               item.editMode = isEditSourceMode(view);
               item.headings = headings;
+              const previousPath = item.file.path;
+              if (item.file !== file) {
+                // the positions of the previous file mean nothing in the new one
+                item.headingEl.clearHistory();
+              }
               item.file = file;
+              this.applyFileSettings(item, true);
+              this.invalidateOffsetIndex(item);
+              if (previousPath !== file.path) {
+                this.updateLinkedSections(previousPath);
+                this.pruneTitleCache();
+              }
             }
           }
           await this.handleComponentUpdate();
@@ -103,6 +195,7 @@ export default class StickyHeadingsPlugin extends Plugin {
   }
 
   async updateHeadings(file: TFile, view: MarkdownView, item: FileResolveEntry) {
+    this.invalidateOffsetIndex(item);
     await this.setHeadingsInView(getScroller(view), item);
     // item.headingEl.updateHeadings(item.headings);
     return item.headings;
@@ -123,11 +216,16 @@ export default class StickyHeadingsPlugin extends Plugin {
 
           item.editMode = isEditSourceMode(item.view);
           item.headingEl.updateEditMode(isEditSourceMode(item.view));
+          this.invalidateOffsetIndex(item);
 
           if (scroller) {
             await this.setHeadingsInView(scroller, item);
             // Create new scroll listener
+            item.lastScrollTop = scroller.scrollTop;
+            item.hiddenByScroll = false;
+            this.updateHidden(item);
             const newScrollListener = (event: Event) => {
+              this.handleScrollDirection(scroller, item);
               this.detectPosition(event, scroller, item);
             };
             item.view.contentEl.addEventListener('scroll', newScrollListener, true);
@@ -149,22 +247,294 @@ export default class StickyHeadingsPlugin extends Plugin {
     const { scrollTop } = scroller;
     const stuckHeaderHeight = getContainerEl(scroller)?.clientHeight || 0;
     if (item) {
-      const headings = await this.retrieveHeadings(item.file, item.view);
-      item.headings = headings;
-      const headingsInView = headings.filter(heading => heading.offset < scrollTop + stuckHeaderHeight);
+      const { settings } = item;
+      const editMode = isEditMode(item.view);
+      let index = item.offsetIndex;
+      if (!index || isOffsetIndexStale(index, scroller, editMode)) {
+        item.headings = await this.retrieveHeadings(item.file, item.view, settings);
+        // the direction only changes with the layout, so it's checked along with the offsets
+        item.headingEl.updateDirection(getTextDirection(item.view));
+        index = createOffsetIndex(item.headings, settings, scroller, editMode);
+        item.offsetIndex = index;
+        item.stackKey = null;
+      }
+      if (!item.enabled || item.paneHidden) {
+        if (item.stackKey !== '') {
+          this.updateStack(item, [], () => []);
+        }
+        this.updateUpNext(item, []);
+        return;
+      }
+      const { filtered: filteredHeadings } = index;
+      const headingsInView = lookupHeadingsInView(index, scrollTop + stuckHeaderHeight);
       let findalHeadings: Heading[] = [];
-      trivial(headingsInView, findalHeadings, this.settings.mode);
-      if (this.settings.max) {
-        findalHeadings = findalHeadings.slice(-this.settings.max);
+      trivial(headingsInView, findalHeadings, settings.mode);
+      if (settings.max) {
+        findalHeadings = findalHeadings.slice(-settings.max);
       }
-      const indentList = calcIndentLevels(findalHeadings);
-      item.headingEl.updateHeadings(
-        findalHeadings.map((heading, i) => ({
-          ...heading,
-          indentLevel: indentList[i] || 0,
-        })),
-        makeExpectedHeadings(headings, this.settings.max, this.settings.mode)
+      // skip the svelte update when scrolling inside the same section
+      if (getStackKey(findalHeadings) !== item.stackKey) {
+        const indentList = calcIndentLevels(findalHeadings);
+        this.updateStack(
+          item,
+          findalHeadings.map((heading, i) => ({
+            ...heading,
+            indentLevel: indentList[i] || 0,
+          })),
+          makeExpectedHeadings(filteredHeadings, settings.max, settings.mode)
+        );
+      }
+      this.updateUpNext(
+        item,
+        settings.upNext > 0 ? lookupUpcomingHeadings(index, scrollTop + scroller.clientHeight, settings.upNext) : []
       );
+      if (settings.progress !== 'none') {
+        item.headingEl.updateProgress(calcProgress(filteredHeadings, scrollTop + stuckHeaderHeight, scroller));
+      }
+    }
+  }
+
+  updateStack(item: FileResolveEntry, stack: Heading[], getExpectedHeadings: (index: number) => Heading[]) {
+    const changed = getStackKey(item.stack) !== getStackKey(stack);
+    item.stackKey = getStackKey(stack);
+    item.stack = stack;
+    item.headingEl.updateHeadings(stack, getExpectedHeadings, item.headings);
+    if (changed) {
+      this.updateTabSuffix(item);
+      if (item === this.getActiveEntry()) {
+        this.updateStatusBar();
+      }
+      this.app.workspace.trigger('sticky-headings:change', item.view.leaf, stack);
+      this.updateLinkedSections(item.file.path);
+    }
+  }
+
+  getLinkedEntries(item: FileResolveEntry) {
+    return Array.from(this.fileResolveMap.values()).filter(
+      entry => entry !== item && entry.enabled && entry.file.path === item.file.path
+    );
+  }
+
+  // Each pane of the note marks the current section of the first other pane showing it.
+  updateLinkedSections(path: string) {
+    this.fileResolveMap.forEach(item => {
+      if (item.file.path !== path) return;
+      const [other] = item.settings.linkedSections && item.enabled ? this.getLinkedEntries(item) : [];
+      if (!other) {
+        item.headingEl.updateLinked(null, null);
+        return;
+      }
+      const section = getCurrentSection(other.stack);
+      item.headingEl.updateLinked((section && findSameHeading(item.headings, section)) ?? null, () =>
+        this.syncLinkedPane(item)
+      );
+    });
+  }
+
+  // Brings the other pane to the current section of this one.
+  syncLinkedPane(item: FileResolveEntry) {
+    const [other] = this.getLinkedEntries(item);
+    const section = getCurrentSection(item.stack);
+    const target = other && section && findSameHeading(other.headings, section);
+    if (target) {
+      other.headingEl.jumpTo(other.view, target);
+    }
+  }
+
+  // Scrolling down hides the sticky header, scrolling up reveals it again.
+  handleScrollDirection(scroller: HTMLElement, item: FileResolveEntry) {
+    const { scrollTop } = scroller;
+    const delta = scrollTop - (item.lastScrollTop ?? scrollTop);
+    item.lastScrollTop = scrollTop;
+    const { autoHideSource, autoHideReading } = item.settings;
+    const enabled = isEditMode(item.view) ? ['scroll', 'both'].includes(autoHideSource) : autoHideReading;
+    if (!enabled) {
+      item.hiddenByScroll = false;
+    } else if (Math.abs(delta) >= 4 && !item.headingEl.isJumping(item.view)) {
+      item.hiddenByScroll = delta > 0;
+    }
+    this.updateHidden(item);
+  }
+
+  // Typing hides the sticky header until the editor has been idle for the configured delay.
+  handleTyping(item: FileResolveEntry) {
+    const { autoHideSource, autoHideDelay } = item.settings;
+    if (!['typing', 'both'].includes(autoHideSource)) {
+      return;
+    }
+    if (item.typingTimer) {
+      window.clearTimeout(item.typingTimer);
+    }
+    item.hiddenByTyping = true;
+    this.updateHidden(item);
+    item.typingTimer = window.setTimeout(() => {
+      item.typingTimer = null;
+      item.hiddenByTyping = false;
+      this.updateHidden(item);
+    }, autoHideDelay);
+  }
+
+  updateHidden(item: FileResolveEntry) {
+    const hidden = !!(item.hiddenByScroll || item.hiddenByTyping);
+    if (hidden !== !!item.hidden) {
+      item.hidden = hidden;
+      item.headingEl.updateHidden(hidden);
+    }
+  }
+
+  clearAutoHide(item: FileResolveEntry) {
+    if (item.typingTimer) {
+      window.clearTimeout(item.typingTimer);
+      item.typingTimer = null;
+    }
+    item.hiddenByScroll = false;
+    item.hiddenByTyping = false;
+    this.updateHidden(item);
+  }
+
+  updateUpNext(item: FileResolveEntry, upNext: Heading[]) {
+    const upNextKey = getStackKey(upNext);
+    if (upNextKey !== item.upNextKey) {
+      item.upNextKey = upNextKey;
+      item.headingEl.updateUpNext(upNext);
+    }
+  }
+
+  updateStatusBar() {
+    if (!this.statusBarEl) return;
+    const { statusBar, statusBarSeparator, statusBarDepth } = this.settings;
+    const text = statusBar
+      ? formatHeadingPath(this.getActiveEntry()?.stack ?? [], statusBarSeparator, statusBarDepth)
+      : '';
+    this.statusBarEl.setText(text);
+    this.statusBarEl.toggle(!!text);
+  }
+
+  updateTabSuffix(item: FileResolveEntry) {
+    const { tabTitle, tabTitleFormat } = this.settings;
+    const text = tabTitle ? formatTabSuffix(item.stack, tabTitleFormat) : '';
+    if (!text) {
+      item.tabSuffixEl?.remove();
+      item.tabSuffixEl = null;
+      return;
+    }
+    if (!item.tabSuffixEl) {
+      item.tabSuffixEl = createSpan({ cls: 'sticky-headings-tab-suffix' });
+      item.view.leaf.tabHeaderInnerTitleEl.insertAdjacentElement('afterend', item.tabSuffixEl);
+    }
+    item.tabSuffixEl.setText(text);
+  }
+
+  openJumpMenu(event: MouseEvent) {
+    const item = this.getActiveEntry();
+    if (!item) return;
+    const path = getHeadingPath(item.stack).map(heading => heading.index);
+    const menu = new Menu();
+    filterByLevel(item.headings, item.settings.minLevel, item.settings.maxLevel).forEach(heading => {
+      menu.addItem(menuItem => {
+        menuItem
+          .setTitle(heading.title)
+          .setIcon(`heading-${heading.level}`)
+          .setChecked(path.includes(heading.index))
+          .onClick(() => item.headingEl.jumpTo(item.view, heading));
+      });
+    });
+    menu.showAtMouseEvent(event);
+  }
+
+  registerCommands() {
+    const navigationCommands: [NavigationAction, string][] = [
+      ['next', L.command.next()],
+      ['previous', L.command.previous()],
+      ['parent', L.command.parent()],
+      ['nextSibling', L.command.nextSibling()],
+      ['previousSibling', L.command.previousSibling()],
+    ];
+    navigationCommands.forEach(([action, name]) => {
+      this.addCommand({
+        id: `jump-to-${action.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)}-heading`,
+        name,
+        checkCallback: checking => {
+          const item = this.getActiveEntry();
+          if (!item) return false;
+          if (!checking) {
+            this.navigate(item, action);
+          }
+          return true;
+        },
+      });
+    });
+    const historyCommands: [HistoryDirection, string][] = [
+      ['back', L.command.back()],
+      ['forward', L.command.forward()],
+    ];
+    historyCommands.forEach(([direction, name]) => {
+      this.addCommand({
+        id: `jump-${direction}`,
+        name,
+        checkCallback: checking => {
+          const item = this.getActiveEntry();
+          if (!item?.headingEl.canNavigateHistory(item.view, direction)) return false;
+          if (!checking) {
+            item.headingEl.navigateHistory(item.view, direction);
+          }
+          return true;
+        },
+      });
+    });
+    this.addCommand({
+      id: 'sync-linked-pane',
+      name: L.command.syncLinked(),
+      checkCallback: checking => {
+        const item = this.getActiveEntry();
+        if (!item?.settings.linkedSections || !this.getLinkedEntries(item).length) return false;
+        if (!checking) {
+          this.syncLinkedPane(item);
+        }
+        return true;
+      },
+    });
+    this.addCommand({
+      id: 'focus-sticky-header',
+      name: L.command.focus(),
+      checkCallback: checking => {
+        const item = this.getActiveEntry();
+        if (!item?.stack.length) return false;
+        if (!checking) {
+          item.headingEl.focus(item.view);
+        }
+        return true;
+      },
+    });
+    this.addCommand({
+      id: 'toggle-sticky-header',
+      name: L.command.toggle(),
+      checkCallback: checking => {
+        const item = this.getActiveEntry();
+        if (!item) return false;
+        if (!checking) {
+          item.paneHidden = !item.paneHidden;
+          this.setHeadingsInView(getScroller(item.view), item);
+        }
+        return true;
+      },
+    });
+  }
+
+  getActiveEntry() {
+    const id = this.app.workspace.getActiveViewOfType(MarkdownView)?.leaf.id;
+    return id ? this.fileResolveMap.get(id) : undefined;
+  }
+
+  navigate(item: FileResolveEntry, action: NavigationAction) {
+    const scroller = getScroller(item.view);
+    const stuckHeaderHeight = getContainerEl(scroller)?.clientHeight || 0;
+    // headings outside of the level range are skipped, like in the sticky header
+    const headings = filterByLevel(item.headings, item.settings.minLevel, item.settings.maxLevel);
+    const currentIndex = getCurrentHeadingIndex(headings, scroller.scrollTop + stuckHeaderHeight);
+    const target = getNavigationTarget(action, headings, currentIndex);
+    if (target) {
+      item.headingEl.jumpTo(item.view, target);
     }
   }
 
@@ -183,11 +553,16 @@ export default class StickyHeadingsPlugin extends Plugin {
       const ids: string[] = [];
       for (const [id, item] of this.fileResolveMap) {
         if (item.file.path === file.path) {
+          // frontmatter may have changed, re-apply the per-note settings before rendering
+          this.applyFileSettings(item);
           await this.updateHeadings(file, item.view, item);
           if (!item.resolve) {
             item.resolve = true;
             ids.push(id);
           }
+        } else if (item.headings.some(heading => heading.embed?.path === file.path)) {
+          // the headings of an embedded note have changed
+          await this.updateHeadings(item.file, item.view, item);
         }
       }
       if (ids.length > 0) {
@@ -212,48 +587,113 @@ export default class StickyHeadingsPlugin extends Plugin {
       if (!validIds.has(id)) {
         // debug: console.log('deleting');
         const item = this.fileResolveMap.get(id);
-        item?.headingEl.removeStickyHeader();
         this.fileResolveMap.delete(id);
+        if (item) {
+          this.clearAutoHide(item);
+          item.headingEl.removeStickyHeader();
+          item.tabSuffixEl?.remove();
+          this.updateLinkedSections(item.file.path);
+        }
       }
     });
+    this.pruneTitleCache();
   }
 
-  async retrieveHeadings(file: TFile, view: MarkdownView): Promise<Heading[]> {
-    const headings = getHeadings(file, this.app);
+  async retrieveHeadings(file: TFile, view: MarkdownView, settings: ISetting): Promise<Heading[]> {
+    const headings = getHeadingsWithPseudo(file, this.app, view.data, settings);
 
     if (!headings || headings.length === 0) return [];
 
-    return await Promise.all(
+    const cachedTitles = this.titleCache.get(file.path);
+    const titles = new Map<string, HeadingTitle>();
+    const shownHeadings = await Promise.all(
       getShownHeadings(headings, view).map(async heading => {
-        const cacheKey = heading.heading;
-        let title: string;
-        if (cacheKey in this.markdownCache) {
-          // console.log('skipping because its cached');
-          title = this.markdownCache[cacheKey];
-        } else {
-          title = await parseMarkdown(heading.heading, this.app);
-          // console.log('adding to cache');
-          this.markdownCache[cacheKey] = title;
+        // only headings whose text changed are rendered again
+        let title = titles.get(heading.heading) ?? cachedTitles?.get(heading.heading);
+        if (!title) {
+          title = await renderHeadingTitle(heading.heading, this.app, file.path);
         }
+        titles.set(heading.heading, title);
         return {
           ...heading,
-          title,
+          title: title.text,
+          titleHtml: title.html,
         };
       })
     );
+    this.titleCache.set(file.path, titles);
+    // numbered over all headings, so the numbers don't depend on `max`, `mode` or the level range
+    if (settings.numbering) {
+      const numbers = getSectionNumbers(shownHeadings, settings);
+      return shownHeadings.map(heading => ({ ...heading, number: numbers.get(heading.index) }));
+    }
+    return shownHeadings;
+  }
+
+  resolveFileSettings(file: TFile) {
+    const profile = findProfile(this.settings.profiles, file, this.app);
+    return mergeFrontmatterSettings(
+      profile ? profile.settings : pickSettings(this.settings),
+      getFrontmatterSettings(file, this.app)
+    );
+  }
+
+  clearTitleCache(path: string) {
+    this.titleCache.delete(path);
+  }
+
+  pruneTitleCache() {
+    const openPaths = new Set(Array.from(this.fileResolveMap.values(), item => item.file.path));
+    Array.from(this.titleCache.keys()).forEach(path => {
+      if (!openPaths.has(path)) {
+        this.titleCache.delete(path);
+      }
+    });
+  }
+
+  invalidateOffsetIndex(item: FileResolveEntry) {
+    item.offsetIndex = null;
+    item.stackKey = null;
+    item.upNextKey = null;
+  }
+
+  // Resolves happen while typing, so nothing is reset unless the settings of the note changed or `force` is set.
+  applyFileSettings(item: FileResolveEntry, force = false) {
+    const { settings, enabled } = this.resolveFileSettings(item.file);
+    if (!force && enabled === item.enabled && isEqual(settings, item.settings)) {
+      return;
+    }
+    item.settings = settings;
+    item.enabled = enabled;
+    item.headingEl.updateSettings(settings, findCustomTheme(this.settings.customThemes, settings.theme));
+    this.clearAutoHide(item);
+    this.invalidateOffsetIndex(item);
   }
 
   onSettingChanged() {
     this.fileResolveMap.forEach(item => {
       if (item.headingEl) {
-        item.headingEl.updateSettings(this.settings);
+        // custom themes are edited without changing the settings of the note
+        this.applyFileSettings(item, true);
+        this.updateTabSuffix(item);
+        const scroller = getScroller(item.view);
+        if (scroller) {
+          this.setHeadingsInView(scroller, item);
+        }
       }
     });
+    // the stacks may stay the same while linked sections are turned on or off
+    new Set(Array.from(this.fileResolveMap.values(), item => item.file.path)).forEach(path =>
+      this.updateLinkedSections(path)
+    );
+    this.updateStatusBar();
   }
 
   onunload() {
     this.fileResolveMap.forEach((item, id) => {
+      this.clearAutoHide(item);
       item.headingEl.removeStickyHeader();
+      item.tabSuffixEl?.remove();
 
       if (item.layoutChangeEvent) {
         this.app.workspace.offref(item.layoutChangeEvent);
@@ -267,11 +707,19 @@ export default class StickyHeadingsPlugin extends Plugin {
     this.fileResolveMap.clear();
   }
 
+  // Snippet themes can only be looked up once the CSS snippets are loaded, an unknown theme is kept but reported.
+  checkThemes() {
+    const themes = getThemeOptions(this.settings.customThemes, document);
+    const unknownTheme = [this.settings.theme, ...this.settings.profiles.map(profile => profile.settings.theme)].find(
+      theme => getSettingErrors({ theme }, themes).theme
+    );
+    if (unknownTheme) {
+      new Notice(`Sticky Headings: ${L.setting.errors.themeNotFound({ name: unknownTheme })}`);
+    }
+  }
+
   async loadSettings() {
-    this.settings = {
-      ...defaultSettings,
-      ...((await this.loadData()) as ISetting),
-    };
+    this.settings = parseSettings(await this.loadData());
   }
 
   async saveSettings() {
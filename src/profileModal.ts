@@ -0,0 +1,103 @@
+import type { App } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+import L from './i18n';
+import type { IProfile, IProfileRule, ThemeOption } from './types';
+import { renderSettings } from './settings';
+
+export default class ProfileModal extends Modal {
+  profile: IProfile;
+  themes: ThemeOption[];
+  onSubmit: (data: IProfile) => void;
+
+  constructor(app: App, profile: IProfile, themes: ThemeOption[], onSubmit: (data: IProfile) => void) {
+    super(app);
+    this.themes = themes;
+    this.profile = {
+      ...profile,
+      rules: profile.rules.map(rule => ({ ...rule })),
+      settings: { ...profile.settings },
+    };
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    this.titleEl.setText(this.profile.name);
+    this.display();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  updateRules(rules: IProfileRule[]) {
+    this.profile.rules = rules;
+    this.display();
+  }
+
+  display() {
+    const { contentEl } = this;
+    contentEl.empty();
+    new Setting(contentEl).setName(L.setting.profiles.name()).addText(text => {
+      text.setValue(this.profile.name);
+      text.onChange(value => {
+        this.profile.name = value;
+      });
+    });
+
+    new Setting(contentEl)
+      .setName(L.setting.profiles.rules())
+      .setDesc(L.setting.profiles.rulesDescription())
+      .setHeading();
+    this.profile.rules.forEach((rule, index) => {
+      new Setting(contentEl)
+        .addDropdown(dropdown => {
+          dropdown.addOption('folder', L.setting.profiles.ruleType.folder());
+          dropdown.addOption('tag', L.setting.profiles.ruleType.tag());
+          dropdown.addOption('name', L.setting.profiles.ruleType.name());
+          dropdown.setValue(rule.type);
+          dropdown.onChange(value => {
+            rule.type = value as IProfileRule['type'];
+          });
+        })
+        .addText(text => {
+          text.setValue(rule.pattern);
+          text.onChange(value => {
+            rule.pattern = value;
+          });
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('trash')
+            .setTooltip(L.setting.profiles.removeRule())
+            .onClick(() => {
+              this.updateRules(this.profile.rules.filter((_, i) => i !== index));
+            });
+        });
+    });
+    new Setting(contentEl).addButton(button => {
+      button.setButtonText(L.setting.profiles.addRule()).onClick(() => {
+        this.updateRules([...this.profile.rules, { type: 'folder', pattern: '' }]);
+      });
+    });
+
+    new Setting(contentEl).setName(L.setting.profiles.settings()).setHeading();
+    renderSettings(
+      contentEl,
+      () => this.profile.settings,
+      settings => {
+        this.profile.settings = settings;
+      },
+      this.themes
+    );
+
+    new Setting(contentEl).addButton(button => {
+      button
+        .setButtonText(L.setting.profiles.save())
+        .setCta()
+        .onClick(() => {
+          this.onSubmit(this.profile);
+          this.close();
+        });
+    });
+  }
+}
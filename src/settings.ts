@@ -1,88 +1,838 @@
 import type StickyHeadingsPlugin from 'main';
-import type { App } from 'obsidian';
-import { PluginSettingTab, Setting } from 'obsidian';
-import L from './i18n';
-import type { ISetting } from './types';
+import type { App, DropdownComponent } from 'obsidian';
+import { Notice, PluginSettingTab, Setting, TFile } from 'obsidian';
+import L, { uiDirection } from './i18n';
+import type { Heading, ICustomTheme, IPluginSetting, IProfile, ISetting, ThemeOption } from './types';
+import ProfileModal from './profileModal';
+import ThemeModal from './themeModal';
+import StickyHeader from './ui/StickyHeader.svelte';
+import { findProfile } from './utils/profiles';
+import { findCustomTheme, getThemeOptions } from './utils/themes';
+import { getSectionNumbers } from './utils/sectionNumbers';
+import { calcIndentLevels } from './utils/calcIndentLevels';
+import {
+  getSettingErrors,
+  getValidFields,
+  isCustomTheme,
+  isProfileRule,
+  isRecord,
+  migrateSettings,
+  settingsVersion,
+} from './utils/settingsSchema';
 
 export const defaultSettings = {
+  version: settingsVersion,
   max: 0,
   mode: 'default',
   scrollBehaviour: 'smooth',
+  scrollEasing: 'easeOutCubic',
+  scrollDurationMin: 200,
+  scrollDurationMax: 1000,
   theme: 'flat',
-} satisfies ISetting;
+  layout: 'stack',
+  minLevel: 1,
+  maxLevel: 6,
+  calloutHeadings: false,
+  blockHeadings: false,
+  pseudoHeadingLevel: 6,
+  progress: 'none',
+  upNext: 0,
+  numbering: false,
+  numberingStartLevel: 1,
+  numberingSeparator: '.',
+  numberingSkipH1: false,
+  autoHideSource: 'off',
+  autoHideReading: false,
+  autoHideDelay: 1500,
+  linkedSections: false,
+  profiles: [],
+  customThemes: [],
+  statusBar: false,
+  statusBarSeparator: ' › ',
+  statusBarDepth: 0,
+  tabTitle: false,
+  tabTitleFormat: ' › {heading}',
+} satisfies IPluginSetting;
+
+export function pickSettings({
+  max,
+  mode,
+  scrollBehaviour,
+  scrollEasing,
+  scrollDurationMin,
+  scrollDurationMax,
+  theme,
+  layout,
+  minLevel,
+  maxLevel,
+  calloutHeadings,
+  blockHeadings,
+  pseudoHeadingLevel,
+  progress,
+  upNext,
+  numbering,
+  numberingStartLevel,
+  numberingSeparator,
+  numberingSkipH1,
+  autoHideSource,
+  autoHideReading,
+  autoHideDelay,
+  linkedSections,
+}: ISetting): ISetting {
+  return {
+    max,
+    mode,
+    scrollBehaviour,
+    scrollEasing,
+    scrollDurationMin,
+    scrollDurationMax,
+    theme,
+    layout,
+    minLevel,
+    maxLevel,
+    calloutHeadings,
+    blockHeadings,
+    pseudoHeadingLevel,
+    progress,
+    upNext,
+    numbering,
+    numberingStartLevel,
+    numberingSeparator,
+    numberingSkipH1,
+    autoHideSource,
+    autoHideReading,
+    autoHideDelay,
+    linkedSections,
+  };
+}
+
+// Stored or imported settings are migrated, then every invalid field is replaced with its default.
+export function parseSettings(data: unknown): IPluginSetting {
+  const settings = getValidFields(migrateSettings(isRecord(data) ? data : {}), defaultSettings);
+  const globalSettings = pickSettings(settings);
+  return {
+    ...settings,
+    version: settingsVersion,
+    profiles: (settings.profiles as unknown[]).filter(isRecord).map(profile => ({
+      name: typeof profile.name === 'string' ? profile.name : '',
+      rules: Array.isArray(profile.rules) ? profile.rules.filter(isProfileRule) : [],
+      // fields added after the profile was saved take the global values
+      settings: getValidFields(isRecord(profile.settings) ? profile.settings : {}, globalSettings, {
+        customThemes: settings.customThemes,
+      }),
+    })),
+    customThemes: (settings.customThemes as unknown[]).filter(isCustomTheme),
+  };
+}
+
+// A text field must hold a whole number, anything else is rejected instead of becoming 0.
+export const parseNumber = (value: string) => (/^\s*\d+\s*$/.test(value) ? parseInt(value, 10) : NaN);
+
+// The first error of the given fields is shown below the description of the setting.
+export function showErrors<K extends string>(setting: Setting, errors: Partial<Record<K, string>>, keys: K[]) {
+  const error = keys.map(key => errors[key]).find(Boolean);
+  setting.settingEl.toggleClass('sticky-headings-setting-invalid', !!error);
+  setting.descEl.querySelector('.sticky-headings-setting-error')?.remove();
+  if (error) {
+    setting.descEl.createDiv({ cls: 'sticky-headings-setting-error', text: error });
+  }
+  return !error;
+}
+
+const levels = [1, 2, 3, 4, 5, 6];
+
+export function renderSettings<T extends ISetting>(
+  containerEl: HTMLElement,
+  getSettings: () => T,
+  update: (data: T) => void,
+  themes: ThemeOption[]
+) {
+  // an invalid value is explained next to the field and isn't applied
+  const updateIfValid = (setting: Setting, keys: (keyof ISetting)[], data: T) => {
+    if (showErrors(setting, getSettingErrors(data, themes), keys)) {
+      update(data);
+    }
+  };
+  new Setting(containerEl)
+    .setName(L.setting.mode.title())
+    .setDesc(L.setting.mode.description())
+    .addDropdown(dropdown => {
+      dropdown.addOption('default', L.setting.mode.default());
+      dropdown.addOption('concise', L.setting.mode.concise());
+      dropdown.setValue(getSettings().mode);
+      dropdown.onChange(value => {
+        update({
+          ...getSettings(),
+
+          mode: value as 'default' | 'concise',
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.layout.title())
+    .setDesc(L.setting.layout.description())
+    .addDropdown(dropdown => {
+      dropdown.addOption('stack', L.setting.layout.stack());
+      dropdown.addOption('breadcrumb', L.setting.layout.breadcrumb());
+      dropdown.setValue(getSettings().layout);
+      dropdown.onChange(value => {
+        update({
+          ...getSettings(),
+          layout: value as 'stack' | 'breadcrumb',
+        });
+      });
+    });
+  const maxSetting = new Setting(containerEl)
+    .setName(L.setting.max.title())
+    .setDesc(L.setting.max.description())
+    .addText(text => {
+      text.setValue(getSettings().max.toString());
+      text.onChange(value => {
+        updateIfValid(maxSetting, ['max'], {
+          ...getSettings(),
+          max: parseNumber(value),
+        });
+      });
+    });
+  // each end of the range pushes the other one along, so both dropdowns are kept in sync
+  let minLevelDropdown: DropdownComponent | undefined;
+  let maxLevelDropdown: DropdownComponent | undefined;
+  new Setting(containerEl)
+    .setName(L.setting.levelRange.title())
+    .setDesc(L.setting.levelRange.description())
+    .addDropdown(dropdown => {
+      minLevelDropdown = dropdown;
+      levels.forEach(level => {
+        dropdown.addOption(level.toString(), `H${level}`);
+      });
+      dropdown.setValue(getSettings().minLevel.toString());
+      dropdown.onChange(value => {
+        const minLevel = parseInt(value, 10);
+        const maxLevel = Math.max(minLevel, getSettings().maxLevel);
+        update({
+          ...getSettings(),
+          minLevel,
+          maxLevel,
+        });
+        maxLevelDropdown?.setValue(maxLevel.toString());
+      });
+    })
+    .addDropdown(dropdown => {
+      maxLevelDropdown = dropdown;
+      levels.forEach(level => {
+        dropdown.addOption(level.toString(), `H${level}`);
+      });
+      dropdown.setValue(getSettings().maxLevel.toString());
+      dropdown.onChange(value => {
+        const maxLevel = parseInt(value, 10);
+        const minLevel = Math.min(maxLevel, getSettings().minLevel);
+        update({
+          ...getSettings(),
+          minLevel,
+          maxLevel,
+        });
+        minLevelDropdown?.setValue(minLevel.toString());
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.pseudoHeadings.callouts())
+    .setDesc(L.setting.pseudoHeadings.calloutsDescription())
+    .addToggle(toggle => {
+      toggle.setValue(getSettings().calloutHeadings);
+      toggle.onChange(value => {
+        update({
+          ...getSettings(),
+          calloutHeadings: value,
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.pseudoHeadings.blocks())
+    .setDesc(L.setting.pseudoHeadings.blocksDescription())
+    .addToggle(toggle => {
+      toggle.setValue(getSettings().blockHeadings);
+      toggle.onChange(value => {
+        update({
+          ...getSettings(),
+          blockHeadings: value,
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.pseudoHeadings.level())
+    .setDesc(L.setting.pseudoHeadings.levelDescription())
+    .addDropdown(dropdown => {
+      levels.forEach(level => {
+        dropdown.addOption(level.toString(), `H${level}`);
+      });
+      dropdown.setValue(getSettings().pseudoHeadingLevel.toString());
+      dropdown.onChange(value => {
+        update({
+          ...getSettings(),
+          pseudoHeadingLevel: parseInt(value, 10),
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.numbering.title())
+    .setDesc(L.setting.numbering.description())
+    .addToggle(toggle => {
+      toggle.setValue(getSettings().numbering);
+      toggle.onChange(value => {
+        update({
+          ...getSettings(),
+          numbering: value,
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.numbering.startLevel())
+    .setDesc(L.setting.numbering.startLevelDescription())
+    .addDropdown(dropdown => {
+      levels.forEach(level => {
+        dropdown.addOption(level.toString(), `H${level}`);
+      });
+      dropdown.setValue(getSettings().numberingStartLevel.toString());
+      dropdown.onChange(value => {
+        update({
+          ...getSettings(),
+          numberingStartLevel: parseInt(value, 10),
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.numbering.separator())
+    .setDesc(L.setting.numbering.separatorDescription())
+    .addText(text => {
+      text.setValue(getSettings().numberingSeparator);
+      text.onChange(value => {
+        update({
+          ...getSettings(),
+          numberingSeparator: value,
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.numbering.skipH1())
+    .setDesc(L.setting.numbering.skipH1Description())
+    .addToggle(toggle => {
+      toggle.setValue(getSettings().numberingSkipH1);
+      toggle.onChange(value => {
+        update({
+          ...getSettings(),
+          numberingSkipH1: value,
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.scrollBehaviour.title())
+    .setDesc(L.setting.scrollBehaviour.description())
+    .addDropdown(dropdown => {
+      dropdown.addOption('smooth', L.setting.scrollBehaviour.smooth());
+      dropdown.addOption('instant', L.setting.scrollBehaviour.instant());
+      dropdown.setValue(getSettings().scrollBehaviour);
+      dropdown.onChange(value => {
+        update({
+          ...getSettings(),
+          scrollBehaviour: value as ScrollBehavior,
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.scrollEasing.title())
+    .setDesc(L.setting.scrollEasing.description())
+    .addDropdown(dropdown => {
+      dropdown.addOption('linear', L.setting.scrollEasing.linear());
+      dropdown.addOption('easeOutCubic', L.setting.scrollEasing.easeOutCubic());
+      dropdown.addOption('easeInOutCubic', L.setting.scrollEasing.easeInOutCubic());
+      dropdown.addOption('easeOutQuint', L.setting.scrollEasing.easeOutQuint());
+      dropdown.addOption('easeInOutSine', L.setting.scrollEasing.easeInOutSine());
+      dropdown.setValue(getSettings().scrollEasing);
+      dropdown.onChange(value => {
+        update({
+          ...getSettings(),
+          scrollEasing: value as ISetting['scrollEasing'],
+        });
+      });
+    });
+  const durationSetting = new Setting(containerEl)
+    .setName(L.setting.scrollDuration.title())
+    .setDesc(L.setting.scrollDuration.description())
+    .addText(text => {
+      text.setPlaceholder(L.setting.scrollDuration.min());
+      text.setValue(getSettings().scrollDurationMin.toString());
+      text.onChange(value => {
+        updateIfValid(durationSetting, ['scrollDurationMin', 'scrollDurationMax'], {
+          ...getSettings(),
+          scrollDurationMin: parseNumber(value),
+        });
+      });
+    })
+    .addText(text => {
+      text.setPlaceholder(L.setting.scrollDuration.max());
+      text.setValue(getSettings().scrollDurationMax.toString());
+      text.onChange(value => {
+        updateIfValid(durationSetting, ['scrollDurationMin', 'scrollDurationMax'], {
+          ...getSettings(),
+          scrollDurationMax: parseNumber(value),
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.progress.title())
+    .setDesc(L.setting.progress.description())
+    .addDropdown(dropdown => {
+      dropdown.addOption('none', L.setting.progress.none());
+      dropdown.addOption('section', L.setting.progress.section());
+      dropdown.addOption('document', L.setting.progress.document());
+      dropdown.addOption('both', L.setting.progress.both());
+      dropdown.setValue(getSettings().progress);
+      dropdown.onChange(value => {
+        update({
+          ...getSettings(),
+          progress: value as ISetting['progress'],
+        });
+      });
+    });
+  const upNextSetting = new Setting(containerEl)
+    .setName(L.setting.upNext.title())
+    .setDesc(L.setting.upNext.description())
+    .addText(text => {
+      text.setValue(getSettings().upNext.toString());
+      text.onChange(value => {
+        updateIfValid(upNextSetting, ['upNext'], {
+          ...getSettings(),
+          upNext: parseNumber(value),
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.autoHide.source())
+    .setDesc(L.setting.autoHide.sourceDescription())
+    .addDropdown(dropdown => {
+      dropdown.addOption('off', L.setting.autoHide.off());
+      dropdown.addOption('scroll', L.setting.autoHide.scroll());
+      dropdown.addOption('typing', L.setting.autoHide.typing());
+      dropdown.addOption('both', L.setting.autoHide.both());
+      dropdown.setValue(getSettings().autoHideSource);
+      dropdown.onChange(value => {
+        update({
+          ...getSettings(),
+          autoHideSource: value as ISetting['autoHideSource'],
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.autoHide.reading())
+    .setDesc(L.setting.autoHide.readingDescription())
+    .addToggle(toggle => {
+      toggle.setValue(getSettings().autoHideReading);
+      toggle.onChange(value => {
+        update({
+          ...getSettings(),
+          autoHideReading: value,
+        });
+      });
+    });
+  const delaySetting = new Setting(containerEl)
+    .setName(L.setting.autoHide.delay())
+    .setDesc(L.setting.autoHide.delayDescription())
+    .addText(text => {
+      text.setValue(getSettings().autoHideDelay.toString());
+      text.onChange(value => {
+        updateIfValid(delaySetting, ['autoHideDelay'], {
+          ...getSettings(),
+          autoHideDelay: parseNumber(value),
+        });
+      });
+    });
+  new Setting(containerEl)
+    .setName(L.setting.linkedSections.title())
+    .setDesc(L.setting.linkedSections.description())
+    .addToggle(toggle => {
+      toggle.setValue(getSettings().linkedSections);
+      toggle.onChange(value => {
+        update({
+          ...getSettings(),
+          linkedSections: value,
+        });
+      });
+    });
+  const themeSetting = new Setting(containerEl)
+    .setName(L.setting.theme.title())
+    .setDesc(L.setting.theme.description())
+    .addDropdown(dropdown => {
+      themes.forEach(({ name, source }) => {
+        const labels = {
+          builtin: () => L.setting.theme[name as 'flat' | 'blur' | 'float'](),
+          custom: () => name,
+          snippet: () => `${name} (${L.setting.themes.snippet()})`,
+        };
+        dropdown.addOption(name, labels[source]());
+      });
+      // a theme from a disabled snippet is kept until another one is picked
+      if (!themes.some(({ name }) => name === getSettings().theme)) {
+        dropdown.addOption(getSettings().theme, getSettings().theme);
+      }
+      dropdown.setValue(getSettings().theme);
+      dropdown.onChange(value => {
+        updateIfValid(themeSetting, ['theme'], {
+          ...getSettings(),
+
+          theme: value,
+        });
+      });
+    });
+  showErrors(themeSetting, getSettingErrors(getSettings(), themes), ['theme']);
+}
+
+// Sample headings for the preview, numbered like a note when section numbers are on.
+function getSampleHeadings(settings: ISetting) {
+  const samples: [number, string][] = [
+    [1, L.setting.themes.samples.chapter()],
+    [2, L.setting.themes.samples.section()],
+    [3, L.setting.themes.samples.subsection()],
+    [2, L.setting.themes.samples.next()],
+  ];
+  const headings: Heading[] = samples.map(([level, title], index) => ({
+    heading: title,
+    title,
+    level,
+    index,
+    offset: index * 100,
+    indentLevel: 0,
+    position: { start: { line: index, col: 0, offset: 0 }, end: { line: index, col: 0, offset: 0 } },
+  }));
+  const numbers = settings.numbering ? getSectionNumbers(headings, settings) : new Map<number, string>();
+  return headings.map(heading => ({ ...heading, number: numbers.get(heading.index) }));
+}
+
+function getPreviewProps(settings: IPluginSetting) {
+  const allHeadings = getSampleHeadings(settings);
+  const stack = allHeadings.slice(0, 3).slice(-(settings.max || 3));
+  const indentList = calcIndentLevels(stack);
+  return {
+    headings: stack.map((heading, i) => ({ ...heading, indentLevel: indentList[i] || 0 })),
+    allHeadings,
+    progress: { section: 0.4, document: 0.25 },
+    upNext: settings.upNext > 0 ? allHeadings.slice(3) : [],
+    editMode: false,
+    getExpectedHeadings: () => [],
+    settings: pickSettings(settings),
+    customTheme: findCustomTheme(settings.customThemes, settings.theme),
+    direction: uiDirection,
+  };
+}
 
 export default class StickyHeadingsSetting extends PluginSettingTab {
   plugin: StickyHeadingsPlugin;
+  preview: StickyHeader | undefined;
 
   constructor(app: App, plugin: StickyHeadingsPlugin) {
     super(app, plugin);
     this.plugin = plugin;
   }
 
-  update(data: ISetting) {
+  update(data: IPluginSetting) {
     this.plugin.settings = data;
     this.plugin.saveSettings();
     this.plugin.onSettingChanged();
+    this.preview?.$set(getPreviewProps(data));
+  }
+
+  updateIfValid(setting: Setting, keys: (keyof IPluginSetting)[], data: IPluginSetting) {
+    if (showErrors(setting, getSettingErrors(data), keys)) {
+      this.update(data);
+    }
+  }
+
+  updateProfiles(profiles: IProfile[]) {
+    this.update({
+      ...this.plugin.settings,
+      profiles,
+    });
+    this.display();
+  }
+
+  // A renamed or removed theme is replaced in the global settings and in every profile that uses it.
+  updateCustomThemes(customThemes: ICustomTheme[], replaced?: { from: string; to: string }) {
+    const replaceTheme = (theme: string) => (replaced && theme === replaced.from ? replaced.to : theme);
+    this.update({
+      ...this.plugin.settings,
+      customThemes,
+      theme: replaceTheme(this.plugin.settings.theme),
+      profiles: this.plugin.settings.profiles.map(profile => ({
+        ...profile,
+        settings: { ...profile.settings, theme: replaceTheme(profile.settings.theme) },
+      })),
+    });
+    this.display();
+  }
+
+  getThemes() {
+    return getThemeOptions(this.plugin.settings.customThemes, this.containerEl.doc);
   }
 
   display(): void {
     const { containerEl } = this;
     containerEl.empty();
+    renderSettings(containerEl, () => this.plugin.settings, data => this.update(data), this.getThemes());
+    this.displayPreview(containerEl);
+    this.displayThemes(containerEl);
+    this.displayOutputs(containerEl);
+    this.displayProfiles(containerEl);
+    this.displayBackup(containerEl);
+  }
+
+  hide() {
+    this.preview?.$destroy();
+    this.preview = undefined;
+  }
+
+  displayPreview(containerEl: HTMLElement) {
+    this.preview?.$destroy();
+    new Setting(containerEl)
+      .setName(L.setting.themes.preview())
+      .setDesc(L.setting.themes.previewText())
+      .setHeading();
+    // The sample headings don't belong to a note, so the preview can't be clicked.
+    const previewEl = containerEl.createDiv({ cls: 'sticky-headings-preview', attr: { inert: '' } });
+    this.preview = new StickyHeader({
+      target: previewEl,
+      props: getPreviewProps(this.plugin.settings),
+    });
+  }
+
+  displayThemes(containerEl: HTMLElement) {
+    const { customThemes } = this.plugin.settings;
+    new Setting(containerEl).setName(L.setting.themes.title()).setDesc(L.setting.themes.description()).setHeading();
+    customThemes.forEach((theme, index) => {
+      new Setting(containerEl)
+        .setName(theme.name)
+        .addExtraButton(button => {
+          button
+            .setIcon('pencil')
+            .setTooltip(L.setting.themes.edit())
+            .onClick(() => {
+              const otherNames = customThemes.filter((_, i) => i !== index).map(({ name }) => name);
+              new ThemeModal(this.app, theme, otherNames, data => {
+                this.updateCustomThemes(
+                  customThemes.map((item, i) => (i === index ? data : item)),
+                  { from: theme.name, to: data.name }
+                );
+              }).open();
+            });
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('trash')
+            .setTooltip(L.setting.themes.remove())
+            .onClick(() => {
+              this.updateCustomThemes(
+                customThemes.filter((_, i) => i !== index),
+                { from: theme.name, to: defaultSettings.theme }
+              );
+            });
+        });
+    });
+    new Setting(containerEl).addButton(button => {
+      button.setButtonText(L.setting.themes.add()).onClick(() => {
+        this.updateCustomThemes([
+          ...customThemes,
+          {
+            name: L.setting.themes.defaultName({ index: customThemes.length + 1 }),
+            colors: levels.map(() => ''),
+            fontSize: 12,
+            padding: 10,
+            radius: 8,
+            background: 'solid',
+          },
+        ]);
+      });
+    });
+  }
+
+  displayOutputs(containerEl: HTMLElement) {
+    new Setting(containerEl).setName(L.setting.outputs.title()).setHeading();
     new Setting(containerEl)
-      .setName(L.setting.mode.title())
-      .setDesc(L.setting.mode.description())
-      .addDropdown(dropdown => {
-        dropdown.addOption('default', L.setting.mode.default());
-        dropdown.addOption('concise', L.setting.mode.concise());
-        dropdown.setValue(this.plugin.settings.mode);
-        dropdown.onChange(value => {
+      .setName(L.setting.outputs.statusBar.title())
+      .setDesc(L.setting.outputs.statusBar.description())
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.statusBar);
+        toggle.onChange(value => {
           this.update({
             ...this.plugin.settings,
-
-            mode: value as 'default' | 'concise',
+            statusBar: value,
           });
         });
       });
     new Setting(containerEl)
-      .setName(L.setting.max.title())
-      .setDesc(L.setting.max.description())
+      .setName(L.setting.outputs.statusBar.separator())
       .addText(text => {
-        text.setValue(this.plugin.settings.max.toString());
+        text.setValue(this.plugin.settings.statusBarSeparator);
         text.onChange(value => {
           this.update({
             ...this.plugin.settings,
-            max: parseInt(value, 10) || 0,
+            statusBarSeparator: value,
           });
         });
       });
-    new Setting(containerEl)
-      .setName(L.setting.scrollBehaviour.title())
-      .setDesc(L.setting.scrollBehaviour.description())
-      .addDropdown(dropdown => {
-        dropdown.addOption('smooth', L.setting.scrollBehaviour.smooth());
-        dropdown.addOption('instant', L.setting.scrollBehaviour.instant());
-        dropdown.setValue(this.plugin.settings.scrollBehaviour);
-        dropdown.onChange(value => {
-          this.update({
+    const depthSetting = new Setting(containerEl)
+      .setName(L.setting.outputs.statusBar.depth())
+      .setDesc(L.setting.outputs.statusBar.depthDescription())
+      .addText(text => {
+        text.setValue(this.plugin.settings.statusBarDepth.toString());
+        text.onChange(value => {
+          this.updateIfValid(depthSetting, ['statusBarDepth'], {
             ...this.plugin.settings,
-            scrollBehaviour: value as ScrollBehavior,
+            statusBarDepth: parseNumber(value),
           });
         });
       });
     new Setting(containerEl)
-      .setName(L.setting.theme.title())
-      .addDropdown(dropdown => {
-        dropdown.addOption('flat', 'flat');
-        dropdown.addOption('blur', 'blur');
-        dropdown.addOption('float', 'float');
-        dropdown.setValue(this.plugin.settings.theme);
-        dropdown.onChange(value => {
+      .setName(L.setting.outputs.tabTitle.title())
+      .setDesc(L.setting.outputs.tabTitle.description())
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.tabTitle);
+        toggle.onChange(value => {
           this.update({
             ...this.plugin.settings,
-
-            theme: value,
+            tabTitle: value,
           });
         });
       });
+    const formatSetting = new Setting(containerEl)
+      .setName(L.setting.outputs.tabTitle.format())
+      .setDesc(L.setting.outputs.tabTitle.formatDescription({ placeholder: '{heading}' }))
+      .addText(text => {
+        text.setValue(this.plugin.settings.tabTitleFormat);
+        text.onChange(value => {
+          this.updateIfValid(formatSetting, ['tabTitleFormat'], {
+            ...this.plugin.settings,
+            tabTitleFormat: value,
+          });
+        });
+      });
+  }
+
+  displayProfiles(containerEl: HTMLElement) {
+    const { profiles } = this.plugin.settings;
+    new Setting(containerEl).setName(L.setting.profiles.title()).setDesc(L.setting.profiles.description()).setHeading();
+    profiles.forEach((profile, index) => {
+      new Setting(containerEl)
+        .setName(profile.name)
+        .setDesc(profile.rules.map(rule => `${L.setting.profiles.ruleType[rule.type]()}: ${rule.pattern}`).join(', '))
+        .addExtraButton(button => {
+          button
+            .setIcon('arrow-up')
+            .setTooltip(L.setting.profiles.moveUp())
+            .setDisabled(index === 0)
+            .onClick(() => {
+              const list = [...profiles];
+              [list[index - 1], list[index]] = [list[index], list[index - 1]];
+              this.updateProfiles(list);
+            });
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('arrow-down')
+            .setTooltip(L.setting.profiles.moveDown())
+            .setDisabled(index === profiles.length - 1)
+            .onClick(() => {
+              const list = [...profiles];
+              [list[index + 1], list[index]] = [list[index], list[index + 1]];
+              this.updateProfiles(list);
+            });
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('pencil')
+            .setTooltip(L.setting.profiles.edit())
+            .onClick(() => {
+              new ProfileModal(this.app, profile, this.getThemes(), data => {
+                this.updateProfiles(profiles.map((item, i) => (i === index ? data : item)));
+              }).open();
+            });
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('trash')
+            .setTooltip(L.setting.profiles.remove())
+            .onClick(() => {
+              this.updateProfiles(profiles.filter((_, i) => i !== index));
+            });
+        });
+    });
+    new Setting(containerEl).addButton(button => {
+      button.setButtonText(L.setting.profiles.add()).onClick(() => {
+        this.updateProfiles([
+          ...profiles,
+          {
+            name: L.setting.profiles.defaultName({ index: profiles.length + 1 }),
+            rules: [],
+            settings: pickSettings(this.plugin.settings),
+          },
+        ]);
+      });
+    });
+    const testSetting = new Setting(containerEl)
+      .setName(L.setting.profiles.test.title())
+      .setDesc(L.setting.profiles.test.description());
+    const resultEl = testSetting.descEl.createDiv();
+    const testPath = (path: string) => {
+      const file = this.app.vault.getAbstractFileByPath(path.trim());
+      if (!(file instanceof TFile)) {
+        resultEl.setText(path.trim() ? L.setting.profiles.test.notFound() : '');
+        return;
+      }
+      const profile = findProfile(this.plugin.settings.profiles, file, this.app);
+      resultEl.setText(
+        profile ? L.setting.profiles.test.match({ name: profile.name }) : L.setting.profiles.test.noMatch()
+      );
+    };
+    testSetting.addText(text => {
+      const activePath = this.app.workspace.getActiveFile()?.path ?? '';
+      text.setValue(activePath);
+      text.onChange(testPath);
+      testPath(activePath);
+    });
+  }
+
+  displayBackup(containerEl: HTMLElement) {
+    new Setting(containerEl).setName(L.setting.backup.title()).setDesc(L.setting.backup.description()).setHeading();
+    const fileEl = containerEl.createEl('input', { type: 'file', attr: { accept: '.json,application/json' } });
+    fileEl.hide();
+    fileEl.addEventListener('change', () => {
+      fileEl.files?.[0]
+        ?.text()
+        .then(text => {
+          const data: unknown = JSON.parse(text);
+          if (!isRecord(data)) {
+            throw new Error('not an object');
+          }
+          this.update(parseSettings(data));
+          this.display();
+          new Notice(L.setting.backup.imported());
+        })
+        .catch(() => {
+          new Notice(L.setting.backup.importFailed());
+        });
+      fileEl.value = '';
+    });
+    new Setting(containerEl)
+      .addButton(button => {
+        button.setButtonText(L.setting.backup.export()).onClick(() => {
+          const url = URL.createObjectURL(
+            new Blob([JSON.stringify(this.plugin.settings, null, 2)], { type: 'application/json' })
+          );
+          const linkEl = containerEl.createEl('a', { href: url, attr: { download: 'sticky-headings.json' } });
+          linkEl.click();
+          linkEl.remove();
+          URL.revokeObjectURL(url);
+        });
+      })
+      .addButton(button => {
+        button.setButtonText(L.setting.backup.import()).onClick(() => fileEl.click());
+      });
   }
 }
@@ -1,15 +1,21 @@
 import StickyHeader from './ui/StickyHeader.svelte';
 import type { MarkdownView } from 'obsidian';
-import type { Heading, ISetting } from './types';
+import { isEditMode } from './utils/obsidian';
+import { JumpHistory } from './utils/jumpHistory';
+import type { Heading, ICustomTheme, ISetting, Progress } from './types';
+
+export type HistoryDirection = 'back' | 'forward';
 
 export default class StickyHeaderComponent {
   stickyHeaderComponents!: [StickyHeader, StickyHeader];
+  // reading and editing views scroll separately, so each one has its own history
+  histories: [JumpHistory, JumpHistory] = [new JumpHistory(100), new JumpHistory(100)];
 
-  constructor(view: MarkdownView, settings: ISetting) {
-    this.addStickyHeader(view, settings);
+  constructor(view: MarkdownView, settings: ISetting, customTheme?: ICustomTheme) {
+    this.addStickyHeader(view, settings, customTheme);
   }
 
-  addStickyHeader(view: MarkdownView, settings: ISetting) {
+  addStickyHeader(view: MarkdownView, settings: ISetting, customTheme?: ICustomTheme) {
     const previewContentEl = view.previewMode.containerEl;
     const sourceContentEl = view.editMode.editorEl;
     this.stickyHeaderComponents = [
@@ -17,20 +23,32 @@ export default class StickyHeaderComponent {
         target: previewContentEl,
         props: {
           headings: [],
+          allHeadings: [],
+          progress: { section: 0, document: 0 },
+          upNext: [],
           editMode: false,
           view,
           getExpectedHeadings: () => [],
           settings,
+          customTheme,
+          onJump: (from: number, to: number) => this.recordJump(0, from, to),
+          onHistory: (direction: HistoryDirection) => this.navigateHistory(view, direction),
         },
       }),
       new StickyHeader({
         target: sourceContentEl,
         props: {
           headings: [],
+          allHeadings: [],
+          progress: { section: 0, document: 0 },
+          upNext: [],
           editMode: false,
           view,
           getExpectedHeadings: () => [],
           settings,
+          customTheme,
+          onJump: (from: number, to: number) => this.recordJump(1, from, to),
+          onHistory: (direction: HistoryDirection) => this.navigateHistory(view, direction),
         },
       }),
     ];
@@ -40,15 +58,90 @@ export default class StickyHeaderComponent {
     this.stickyHeaderComponents.forEach(conponent => conponent.$destroy());
   }
 
-  updateHeadings(headings: Heading[], getExpectedHeadings: (index: number) => Heading[]) {
-    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ headings, getExpectedHeadings }));
+  updateHeadings(
+    headings: Heading[],
+    getExpectedHeadings: (index: number) => Heading[],
+    allHeadings: Heading[] = []
+  ) {
+    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ headings, getExpectedHeadings, allHeadings }));
+  }
+
+  jumpTo(view: MarkdownView, heading: Heading) {
+    const [previewComponent, sourceComponent] = this.stickyHeaderComponents;
+    const component = isEditMode(view) ? sourceComponent : previewComponent;
+    return (component.jumpTo as (target: Heading) => Promise<void>)(heading);
+  }
+
+  // scrolling caused by a jump doesn't count as the user scrolling
+  isJumping(view: MarkdownView) {
+    const [previewComponent, sourceComponent] = this.stickyHeaderComponents;
+    const component = isEditMode(view) ? sourceComponent : previewComponent;
+    return (component.isJumping as () => boolean)();
+  }
+
+  recordJump(modeIndex: number, from: number, to: number) {
+    this.histories[modeIndex].record(from, to);
+    this.updateHistory();
+  }
+
+  canNavigateHistory(view: MarkdownView, direction: HistoryDirection) {
+    const history = this.histories[isEditMode(view) ? 1 : 0];
+    return direction === 'back' ? history.canGoBack() : history.canGoForward();
+  }
+
+  navigateHistory(view: MarkdownView, direction: HistoryDirection) {
+    const modeIndex = isEditMode(view) ? 1 : 0;
+    const history = this.histories[modeIndex];
+    const position = direction === 'back' ? history.back() : history.forward();
+    if (position !== null) {
+      (this.stickyHeaderComponents[modeIndex].scrollToPosition as (top: number) => void)(position);
+      this.updateHistory();
+    }
+  }
+
+  clearHistory() {
+    this.histories.forEach(history => history.clear());
+    this.updateHistory();
+  }
+
+  updateHistory() {
+    this.stickyHeaderComponents.forEach((conponent, i) =>
+      conponent.$set({ canGoBack: this.histories[i].canGoBack(), canGoForward: this.histories[i].canGoForward() })
+    );
+  }
+
+  // `onSync` is null when no other pane shows the note
+  updateLinked(linked: Heading | null, onSync: (() => void) | null) {
+    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ linked, onSync }));
+  }
+
+  updateHidden(hidden: boolean) {
+    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ hidden }));
+  }
+
+  focus(view: MarkdownView) {
+    const [previewComponent, sourceComponent] = this.stickyHeaderComponents;
+    const component = isEditMode(view) ? sourceComponent : previewComponent;
+    return (component.focus as () => boolean)();
+  }
+
+  updateUpNext(upNext: Heading[]) {
+    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ upNext }));
+  }
+
+  updateProgress(progress: Progress) {
+    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ progress }));
+  }
+
+  updateDirection(direction: 'ltr' | 'rtl') {
+    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ direction }));
   }
 
   updateEditMode(editMode: boolean) {
     this.stickyHeaderComponents.forEach(conponent => conponent.$set({ editMode }));
   }
 
-  updateSettings(settings: ISetting) {
-    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ settings }));
+  updateSettings(settings: ISetting, customTheme?: ICustomTheme) {
+    this.stickyHeaderComponents.forEach(conponent => conponent.$set({ settings, customTheme }));
   }
 }
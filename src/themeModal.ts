@@ -0,0 +1,127 @@
+import type { App, ButtonComponent } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+import L from './i18n';
+import type { ICustomTheme } from './types';
+import { parseNumber, showErrors } from './settings';
+import { getThemeErrors } from './utils/settingsSchema';
+
+const levels = [1, 2, 3, 4, 5, 6];
+
+export default class ThemeModal extends Modal {
+  theme: ICustomTheme;
+  otherNames: string[];
+  onSubmit: (data: ICustomTheme) => void;
+  fields: [Setting, keyof ICustomTheme][] = [];
+  saveButton: ButtonComponent | null = null;
+
+  constructor(app: App, theme: ICustomTheme, otherNames: string[], onSubmit: (data: ICustomTheme) => void) {
+    super(app);
+    this.otherNames = otherNames;
+    this.theme = {
+      ...theme,
+      colors: levels.map((_, i) => theme.colors[i] ?? ''),
+    };
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    this.titleEl.setText(this.theme.name);
+    this.display();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  // An invalid field is explained next to it, and the theme can't be saved until all of them are valid.
+  validate() {
+    const errors = getThemeErrors(this.theme, this.otherNames);
+    const valid = this.fields.map(([setting, key]) => showErrors(setting, errors, [key])).every(Boolean);
+    this.saveButton?.setDisabled(!valid);
+    return valid;
+  }
+
+  display() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.fields = [];
+    const nameSetting = new Setting(contentEl).setName(L.setting.themes.name()).addText(text => {
+      text.setValue(this.theme.name);
+      text.onChange(value => {
+        this.theme.name = value;
+        this.validate();
+      });
+    });
+    this.fields.push([nameSetting, 'name']);
+    new Setting(contentEl).setName(L.setting.themes.background.title()).addDropdown(dropdown => {
+      dropdown.addOption('solid', L.setting.themes.background.solid());
+      dropdown.addOption('blur', L.setting.themes.background.blur());
+      dropdown.addOption('transparent', L.setting.themes.background.transparent());
+      dropdown.setValue(this.theme.background);
+      dropdown.onChange(value => {
+        this.theme.background = value as ICustomTheme['background'];
+      });
+    });
+    const fontSizeSetting = new Setting(contentEl).setName(L.setting.themes.fontSize()).addText(text => {
+      text.setValue(this.theme.fontSize.toString());
+      text.onChange(value => {
+        this.theme.fontSize = parseNumber(value);
+        this.validate();
+      });
+    });
+    this.fields.push([fontSizeSetting, 'fontSize']);
+    const paddingSetting = new Setting(contentEl).setName(L.setting.themes.padding()).addText(text => {
+      text.setValue(this.theme.padding.toString());
+      text.onChange(value => {
+        this.theme.padding = parseNumber(value);
+        this.validate();
+      });
+    });
+    this.fields.push([paddingSetting, 'padding']);
+    const radiusSetting = new Setting(contentEl).setName(L.setting.themes.radius()).addText(text => {
+      text.setValue(this.theme.radius.toString());
+      text.onChange(value => {
+        this.theme.radius = parseNumber(value);
+        this.validate();
+      });
+    });
+    this.fields.push([radiusSetting, 'radius']);
+
+    new Setting(contentEl)
+      .setName(L.setting.themes.colors())
+      .setDesc(L.setting.themes.colorsDescription())
+      .setHeading();
+    levels.forEach((level, i) => {
+      new Setting(contentEl)
+        .setName(`H${level}`)
+        .addColorPicker(picker => {
+          picker.setValue(this.theme.colors[i]);
+          picker.onChange(value => {
+            this.theme.colors[i] = value;
+          });
+        })
+        .addExtraButton(button => {
+          button
+            .setIcon('rotate-ccw')
+            .setTooltip(L.setting.themes.resetColor())
+            .onClick(() => {
+              this.theme.colors[i] = '';
+              this.display();
+            });
+        });
+    });
+
+    new Setting(contentEl).addButton(button => {
+      this.saveButton = button;
+      button
+        .setButtonText(L.setting.themes.save())
+        .setCta()
+        .onClick(() => {
+          if (!this.validate()) return;
+          this.onSubmit(this.theme);
+          this.close();
+        });
+    });
+    this.validate();
+  }
+}
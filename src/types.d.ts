@@ -1,4 +1,4 @@
-import type { MarkdownView, TFile, HeadingCache, EventRef } from 'obsidian';
+import type { MarkdownView, TFile, HeadingCache, EventRef, WorkspaceLeaf } from 'obsidian';
 import type StickyHeaderComponent from './stickyHeader';
 
 export interface ISetting {
@@ -6,6 +6,67 @@ export interface ISetting {
   mode: 'default' | 'concise';
   theme: string;
   scrollBehaviour: ScrollBehavior;
+  scrollEasing: 'linear' | 'easeOutCubic' | 'easeInOutCubic' | 'easeOutQuint' | 'easeInOutSine';
+  scrollDurationMin: number;
+  scrollDurationMax: number;
+  layout: 'stack' | 'breadcrumb';
+  minLevel: number;
+  maxLevel: number;
+  calloutHeadings: boolean;
+  blockHeadings: boolean;
+  pseudoHeadingLevel: number;
+  progress: 'none' | 'section' | 'document' | 'both';
+  upNext: number;
+  numbering: boolean;
+  numberingStartLevel: number;
+  numberingSeparator: string;
+  numberingSkipH1: boolean;
+  autoHideSource: 'off' | 'scroll' | 'typing' | 'both';
+  autoHideReading: boolean;
+  autoHideDelay: number;
+  linkedSections: boolean;
+}
+
+export interface IProfileRule {
+  type: 'folder' | 'tag' | 'name';
+  pattern: string;
+}
+
+export interface IProfile {
+  name: string;
+  rules: IProfileRule[];
+  settings: ISetting;
+}
+
+export interface ICustomTheme {
+  name: string;
+  // text colors of H1 to H6, an empty string keeps the default color
+  colors: string[];
+  fontSize: number;
+  padding: number;
+  radius: number;
+  background: 'solid' | 'blur' | 'transparent';
+}
+
+export interface ThemeOption {
+  name: string;
+  source: 'builtin' | 'custom' | 'snippet';
+}
+
+export interface IPluginSetting extends ISetting {
+  // the schema version the settings were saved with
+  version: number;
+  profiles: IProfile[];
+  customThemes: ICustomTheme[];
+  statusBar: boolean;
+  statusBarSeparator: string;
+  statusBarDepth: number;
+  tabTitle: boolean;
+  tabTitleFormat: string;
+}
+
+export interface FrontmatterSetting extends Partial<Pick<ISetting, 'max' | 'mode' | 'theme'>> {
+  enabled?: boolean;
 }
 
 export interface FileResolveEntry {
@@ -18,16 +79,80 @@ export interface FileResolveEntry {
   layoutChangeEvent: EventRef;
   scrollListener?: ((event: Event) => void) | null;
   editMode: boolean;
+  settings: ISetting;
+  enabled: boolean;
+  paneHidden: boolean;
+  offsetIndex?: OffsetIndex | null;
+  stackKey?: string | null;
+  stack: Heading[];
+  upNextKey?: string | null;
+  tabSuffixEl?: HTMLElement | null;
+  lastScrollTop?: number;
+  hiddenByScroll?: boolean;
+  hiddenByTyping?: boolean;
+  typingTimer?: number | null;
+  hidden?: boolean;
+}
+
+export interface StickyHeadingsApi {
+  /** The headings currently displayed in the sticky header of the leaf. */
+  getHeadingStack(leaf: WorkspaceLeaf): Heading[];
+  /** All headings of the note opened in the leaf. */
+  getAllHeadings(leaf: WorkspaceLeaf): Heading[];
+  /** Scrolls the leaf to the heading with the given `Heading.index`, resolves to `false` if there is no such heading. */
+  jumpTo(leaf: WorkspaceLeaf, headingIndex: number): Promise<boolean>;
+}
+
+export interface OffsetIndex {
+  headings: Heading[];
+  filtered: Heading[];
+  offsets: number[];
+  hasEmbeds: boolean;
+  viewportHeight: number;
+  scrollHeight: number;
+  editMode: boolean;
+}
+
+export interface EmbedBoundary {
+  path: string;
+  start: number;
+  end: number;
+}
+
+export interface Progress {
+  section: number;
+  document: number;
+}
+
+export interface PseudoHeadingCache extends HeadingCache {
+  source: 'callout' | 'block';
+}
+
+export interface HeadingTitle {
+  text: string;
+  html: string;
 }
 
 export interface Heading extends HeadingCache {
   title: string;
+  titleHtml?: string;
+  // outline number, such as 3.2.1, when section numbering is on
+  number?: string;
   offset: number;
   indentLevel: number;
   index: number;
+  source?: PseudoHeadingCache['source'];
+  embed?: EmbedBoundary;
 }
 
 declare module 'obsidian' {
+  interface Workspace {
+    on(
+      name: 'sticky-headings:change',
+      callback: (leaf: WorkspaceLeaf, headings: Heading[]) => unknown,
+      ctx?: unknown
+    ): EventRef;
+  }
   interface MarkdownSubView {
     type: 'source' | 'preview';
   }
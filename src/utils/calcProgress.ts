@@ -0,0 +1,17 @@
+import type { Heading, Progress } from 'src/types';
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export function calcProgress(headings: Heading[], position: number, scroller: HTMLElement): Progress {
+  const { scrollTop, scrollHeight, clientHeight } = scroller;
+  const scrollable = scrollHeight - clientHeight;
+  const nextIndex = headings.findIndex(heading => heading.offset >= position);
+  const currentIndex = (nextIndex === -1 ? headings.length : nextIndex) - 1;
+  const start = currentIndex >= 0 ? headings[currentIndex].offset : 0;
+  // The last section ends where the scroller can't scroll any further.
+  const end = nextIndex === -1 ? scrollable + position - scrollTop : headings[nextIndex].offset;
+  return {
+    section: end > start ? clamp((position - start) / (end - start)) : 1,
+    document: scrollable > 0 ? clamp(scrollTop / scrollable) : 1,
+  };
+}
@@ -0,0 +1,77 @@
+import type { App, HeadingCache } from 'obsidian';
+import { parseLinktext } from 'obsidian';
+import type { EmbedBoundary } from 'src/types';
+import { isMarkdownFile } from './obsidian';
+
+export interface EmbeddedHeading {
+  heading: HeadingCache;
+  offset: number;
+  embed: EmbedBoundary;
+}
+
+interface EmbedSection {
+  html: string;
+  el?: HTMLElement;
+  offset: number;
+  height: number;
+}
+
+// `![[Note#Heading]]` only embeds the section under that heading.
+function getSubpathHeadings(headings: HeadingCache[], subpath: string) {
+  const target = subpath.split('#').filter(Boolean).pop();
+  if (!target) {
+    return headings;
+  }
+  if (target.startsWith('^')) {
+    return [];
+  }
+  const start = headings.findIndex(({ heading }) => heading === target);
+  if (start === -1) {
+    return [];
+  }
+  const end = headings.findIndex((heading, i) => i > start && heading.level <= headings[start].level);
+  return headings.slice(start, end === -1 ? undefined : end);
+}
+
+function getHeadingElsOffset(embedEl: Element | undefined, sectionEl: HTMLElement | undefined, count: number) {
+  if (!embedEl || !sectionEl) {
+    return null;
+  }
+  const headingEls = embedEl.querySelectorAll('.markdown-embed-content :is(h1, h2, h3, h4, h5, h6)');
+  if (headingEls.length !== count) {
+    return null;
+  }
+  const { top } = sectionEl.getBoundingClientRect();
+  return Array.from(headingEls).map(el => el.getBoundingClientRect().top - top);
+}
+
+export function getEmbeddedHeadings(app: App, sourcePath: string, section: EmbedSection): EmbeddedHeading[] {
+  if (!section.html.includes('internal-embed')) {
+    return [];
+  }
+  const result: EmbeddedHeading[] = [];
+  const embedEls = Array.from(section.el?.querySelectorAll('.internal-embed') ?? []);
+  const doc = new DOMParser().parseFromString(section.html, 'text/html');
+  doc.querySelectorAll('.internal-embed').forEach((el, i) => {
+    const { path, subpath } = parseLinktext(el.getAttribute('src') ?? '');
+    const file = app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+    if (!file || !isMarkdownFile(file) || file.path === sourcePath) {
+      return;
+    }
+    const headings = getSubpathHeadings(app.metadataCache.getFileCache(file)?.headings ?? [], subpath);
+    const embed: EmbedBoundary = {
+      path: file.path,
+      start: section.offset,
+      end: section.offset + section.height,
+    };
+    const offsets = getHeadingElsOffset(embedEls[i], section.el, headings.length);
+    headings.forEach((heading, j) => {
+      result.push({
+        heading,
+        offset: section.offset + (offsets?.[j] ?? 0),
+        embed,
+      });
+    });
+  });
+  return result;
+}
@@ -0,0 +1,39 @@
+import type { App, TFile } from 'obsidian';
+import type { FrontmatterSetting, ISetting } from 'src/types';
+
+export const frontmatterKey = 'sticky-headings';
+
+const modes: ISetting['mode'][] = ['default', 'concise'];
+
+export function getFrontmatterSettings(file: TFile, app: App): FrontmatterSetting {
+  const value: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.[frontmatterKey];
+  if (typeof value === 'boolean') {
+    return { enabled: value };
+  }
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  const { enabled, mode, max, theme } = value as Record<string, unknown>;
+  const result: FrontmatterSetting = {};
+  if (typeof enabled === 'boolean') {
+    result.enabled = enabled;
+  }
+  if (modes.includes(mode as ISetting['mode'])) {
+    result.mode = mode as ISetting['mode'];
+  }
+  if (typeof max === 'number' && Number.isInteger(max) && max >= 0) {
+    result.max = max;
+  }
+  if (typeof theme === 'string' && theme) {
+    result.theme = theme;
+  }
+  return result;
+}
+
+export function mergeFrontmatterSettings(settings: ISetting, override: FrontmatterSetting) {
+  const { enabled = true, ...rest } = override;
+  return {
+    enabled,
+    settings: { ...settings, ...rest },
+  };
+}
@@ -1,33 +1,89 @@
 import type { HeadingCache, MarkdownView } from 'obsidian';
-import type { Heading } from 'src/types';
+import type { Heading, PseudoHeadingCache } from 'src/types';
 import { isEditMode } from './obsidian';
+import type { EmbeddedHeading } from './embeds';
+import { getEmbeddedHeadings } from './embeds';
+import { isInFoldedRange } from './sectionActions';
 
 const isHeadingRegex = /^<h[1-6]/i;
 
+const isPseudoHeading = (heading: HeadingCache | PseudoHeadingCache): heading is PseudoHeadingCache =>
+  'source' in heading;
+
+// Embedded headings are placed after the host heading of the embed, and nested one level below it.
+function mergeEmbeddedHeadings(headings: Heading[], embeddedHeadings: EmbeddedHeading[]): Heading[] {
+  const result: Heading[] = [];
+  let hostLevel = 0;
+  let i = 0;
+  const topLevels = new Map<EmbeddedHeading['embed'], number>();
+  embeddedHeadings.forEach(({ heading, embed }) => {
+    topLevels.set(embed, Math.min(topLevels.get(embed) ?? 6, heading.level));
+  });
+  embeddedHeadings.forEach(({ heading, offset, embed }) => {
+    while (i < headings.length && headings[i].offset <= embed.start) {
+      hostLevel = headings[i].level;
+      result.push(headings[i++]);
+    }
+    const level = Math.min(hostLevel + heading.level - (topLevels.get(embed) ?? 1) + 1, 6);
+    result.push({
+      ...heading,
+      level,
+      offset,
+      indentLevel: level - 1,
+      title: heading.heading,
+      index: 0,
+      embed,
+    });
+  });
+  result.push(...headings.slice(i));
+  return result.map((heading, index) => ({ ...heading, index }));
+}
+
 export function getHeadingsWithOffsetPreview(headings: HeadingCache[], view: MarkdownView): Heading[] {
   const headingsOffset: number[] = [];
+  const sectionsOffset: { lineStart: number; offset: number }[] = [];
+  const embeddedHeadings: EmbeddedHeading[] = [];
+  const sourcePath = view.file?.path ?? '';
   let heightSum = 0;
-  // @ts-expect-error height not defined in obsidian typing
-  view.previewMode.renderer.sections.forEach(({ html, height = 0 }) => {
+  // @ts-expect-error height and lineStart not defined in obsidian typing
+  view.previewMode.renderer.sections.forEach(({ html, el, height = 0, lineStart = 0 }) => {
     if (isHeadingRegex.test(html)) {
       headingsOffset.push(heightSum);
     }
+    sectionsOffset.push({ lineStart: lineStart as number, offset: heightSum });
+    embeddedHeadings.push(
+      ...getEmbeddedHeadings(view.app, sourcePath, {
+        html,
+        el: el as HTMLElement | undefined,
+        offset: heightSum,
+        height: height as number,
+      })
+    );
     heightSum += height;
   });
-  return headings.map<Heading>((heading, index) => ({
+  // Pseudo headings are not rendered as <h*>, so they are located by the section containing their line.
+  const getSectionOffset = (line: number) =>
+    sectionsOffset.reduce((result, section) => (section.lineStart <= line ? section.offset : result), 0);
+  let headingIndex = 0;
+  const headingsWithOffset = headings.map<Heading>((heading, index) => ({
     ...heading,
-    offset: headingsOffset[index] || 0,
+    offset: isPseudoHeading(heading)
+      ? getSectionOffset(heading.position.start.line)
+      : headingsOffset[headingIndex++] || 0,
     indentLevel: heading.level - 1,
     title: heading.heading,
     index,
   }));
+  return embeddedHeadings.length ? mergeEmbeddedHeadings(headingsWithOffset, embeddedHeadings) : headingsWithOffset;
 }
 
 export function getHeadingsWithOffsetSource(headings: HeadingCache[], view: MarkdownView): Heading[] {
-  const result = headings.map<Heading>((heading, i) => {
+  const { cm } = view.editor;
+  const visibleHeadings = headings.filter(heading => !isInFoldedRange(cm, heading.position.start.offset));
+  const result = visibleHeadings.map<Heading>((heading, i) => {
     const { position } = heading;
     const offset = view.editMode.containerEl.querySelector<HTMLElement>('.cm-contentContainer')?.offsetTop || 0;
-    const { top = 0 } = view.editor.cm.lineBlockAt(position.start.offset);
+    const { top = 0 } = cm.lineBlockAt(position.start.offset);
     return {
       ...heading,
       offset: top + offset,
@@ -39,6 +95,15 @@ export function getHeadingsWithOffsetSource(headings: HeadingCache[], view: Mark
   return result;
 }
 
+// Headings of an embedded note only stay in the stack while the position is inside the embed.
+export function isHeadingInView(heading: Heading, position: number) {
+  return heading.offset < position && (!heading.embed || position < heading.embed.end);
+}
+
+export function filterByLevel(headings: Heading[], minLevel = 1, maxLevel = 6) {
+  return headings.filter(heading => heading.level >= minLevel && heading.level <= maxLevel);
+}
+
 export function trivial(subHeadings: Heading[], result: Heading[], mode: 'default' | 'concise') {
   if (!subHeadings.length) {
     return result;
@@ -0,0 +1,23 @@
+import type { Heading } from 'src/types';
+
+// The stack may also hold the previous siblings of each heading, the path only keeps the ancestors.
+export function getHeadingPath(stack: Heading[]) {
+  const path: Heading[] = [];
+  stack.forEach(heading => {
+    while (path.length && path[path.length - 1].level >= heading.level) {
+      path.pop();
+    }
+    path.push(heading);
+  });
+  return path;
+}
+
+export function formatHeadingPath(stack: Heading[], separator: string, depth: number) {
+  const path = getHeadingPath(stack).map(heading => heading.title);
+  return (depth > 0 ? path.slice(-depth) : path).join(separator);
+}
+
+export function formatTabSuffix(stack: Heading[], template: string) {
+  const path = getHeadingPath(stack);
+  return path.length ? template.replace(/\{heading\}/g, path[0].title) : '';
+}
@@ -0,0 +1,26 @@
+import type { HeadingCache } from 'obsidian';
+import type { Heading } from 'src/types';
+
+export function getParentIndexes(headings: HeadingCache[]): number[] {
+  const result: number[] = [];
+  const stack: number[] = [];
+  headings.forEach((heading, i) => {
+    while (stack.length && headings[stack[stack.length - 1]].level >= heading.level) {
+      stack.pop();
+    }
+    result.push(stack.length ? stack[stack.length - 1] : -1);
+    stack.push(i);
+  });
+  return result;
+}
+
+// `index` is a `Heading.index`, the list may leave headings out, such as the ones outside of the level range.
+export function getSiblingHeadings(headings: Heading[], index: number): Heading[] {
+  const position = headings.findIndex(item => item.index === index);
+  if (position === -1) {
+    return [];
+  }
+  const { level } = headings[position];
+  const parentIndexes = getParentIndexes(headings);
+  return headings.filter((item, i) => item.level === level && parentIndexes[i] === parentIndexes[position]);
+}
@@ -0,0 +1,51 @@
+interface JumpEntry {
+  from: number;
+  to: number;
+}
+
+// Like browser history: going back returns to where a jump started, going forward to where it landed.
+export class JumpHistory {
+  entries: JumpEntry[] = [];
+  // entries before the cursor can be gone back to, the others forward to
+  cursor = 0;
+  capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  record(from: number, to: number) {
+    // a new jump drops the entries that could be gone forward to
+    this.entries = [...this.entries.slice(0, this.cursor), { from, to }].slice(-this.capacity);
+    this.cursor = this.entries.length;
+  }
+
+  back() {
+    if (!this.canGoBack()) {
+      return null;
+    }
+    this.cursor--;
+    return this.entries[this.cursor].from;
+  }
+
+  forward() {
+    if (!this.canGoForward()) {
+      return null;
+    }
+    this.cursor++;
+    return this.entries[this.cursor - 1].to;
+  }
+
+  canGoBack() {
+    return this.cursor > 0;
+  }
+
+  canGoForward() {
+    return this.cursor < this.entries.length;
+  }
+
+  clear() {
+    this.entries = [];
+    this.cursor = 0;
+  }
+}
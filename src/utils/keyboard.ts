@@ -0,0 +1,17 @@
+// Arrow keys follow the reading order: a breadcrumb is navigated horizontally, mirrored in right-to-left text.
+export function getFocusTarget(key: string, index: number, count: number, horizontal: boolean, rtl: boolean) {
+  const forward = horizontal ? (rtl ? 'ArrowLeft' : 'ArrowRight') : 'ArrowDown';
+  const backward = horizontal ? (rtl ? 'ArrowRight' : 'ArrowLeft') : 'ArrowUp';
+  switch (key) {
+    case forward:
+      return Math.min(index + 1, count - 1);
+    case backward:
+      return Math.max(index - 1, 0);
+    case 'Home':
+      return 0;
+    case 'End':
+      return count - 1;
+    default:
+      return null;
+  }
+}
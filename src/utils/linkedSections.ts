@@ -0,0 +1,8 @@
+import type { Heading } from 'src/types';
+
+// The deepest heading of the stack that belongs to the note itself, embedded notes differ between panes.
+export const getCurrentSection = (stack: Heading[]) => [...stack].reverse().find(heading => !heading.embed);
+
+// Indexes differ between panes, embedded notes add headings in reading view, so headings are matched by offset.
+export const findSameHeading = (headings: Heading[], heading: Heading) =>
+  headings.find(item => !item.embed && item.position.start.offset === heading.position.start.offset);
@@ -1,18 +1,26 @@
 import type { Heading } from 'src/types';
-import { trivial } from './getShownHeadings';
+import { isHeadingInView, trivial } from './getShownHeadings';
+import { calcIndentLevels } from './calcIndentLevels';
 
+// `headings` may be filtered by level, so `index` is compared with `Heading.index` instead of the array position.
 export function makeExpectedHeadings(
   headings: Heading[],
   max: number,
   mode: 'default' | 'concise'
 ): (index: number) => Heading[] {
   return (index: number) => {
-    const subHeadings = headings.slice(0, index);
+    const target = headings.find(heading => heading.index === index);
+    const subHeadings = headings.filter(
+      heading => heading.index < index && (!target || isHeadingInView(heading, target.offset + 1))
+    );
     const result: Heading[] = [];
     trivial(subHeadings, result, mode);
-    if (max) {
-      result.slice(-max);
-    }
-    return result;
+    const expectedHeadings = max ? result.slice(-max) : result;
+    // The expected headings are rendered as they are after a jump, so they need the same indentation as the stack.
+    const indentList = calcIndentLevels(expectedHeadings);
+    return expectedHeadings.map((heading, i) => ({
+      ...heading,
+      indentLevel: indentList[i] || 0,
+    }));
   };
 }
@@ -0,0 +1,43 @@
+import type { Heading } from 'src/types';
+import { getParentIndexes, getSiblingHeadings } from './headingTree';
+
+export type NavigationAction = 'next' | 'previous' | 'parent' | 'nextSibling' | 'previousSibling';
+
+// A jump puts its heading right at the bottom of the sticky header, so it counts as current.
+const positionTolerance = 1;
+
+// Headings are sorted by offset, so the current heading is the last one at or above the given position.
+export function getCurrentHeadingIndex(headings: Heading[], position: number) {
+  let result = -1;
+  for (let i = 0; i < headings.length && headings[i].offset <= position + positionTolerance; i++) {
+    result = i;
+  }
+  return result;
+}
+
+export function getNavigationTarget(
+  action: NavigationAction,
+  headings: Heading[],
+  currentIndex: number
+): Heading | undefined {
+  switch (action) {
+    case 'next':
+      return headings[currentIndex + 1];
+    case 'previous':
+      return currentIndex > 0 ? headings[currentIndex - 1] : undefined;
+    case 'parent':
+      return currentIndex >= 0 ? headings[getParentIndexes(headings)[currentIndex]] : undefined;
+    case 'nextSibling':
+      return currentIndex >= 0
+        ? getSiblingHeadings(headings, headings[currentIndex].index).find(
+          heading => heading.index > headings[currentIndex].index
+        )
+        : undefined;
+    case 'previousSibling':
+      return currentIndex >= 0
+        ? getSiblingHeadings(headings, headings[currentIndex].index)
+          .reverse()
+          .find(heading => heading.index < headings[currentIndex].index)
+        : undefined;
+  }
+}
@@ -1,5 +1,9 @@
-import type { App, TAbstractFile } from 'obsidian';
-import { TFile, MarkdownView, MarkdownRenderer } from 'obsidian';
+import type { App, MarkdownView, TAbstractFile } from 'obsidian';
+import { Component, TFile, MarkdownRenderer } from 'obsidian';
+import type { HeadingTitle, ISetting } from 'src/types';
+import { sanitizeInline } from './sanitize';
+import { getPseudoHeadings, mergePseudoHeadings } from './pseudoHeadings';
+import { uiDirection } from '../i18n';
 
 export function isMarkdownFile(file: TFile | TAbstractFile) {
   if (!(file instanceof TFile)) {
@@ -12,18 +16,25 @@ export function getHeadings(file: TFile, app: App) {
   return app.metadataCache.getFileCache(file)?.headings ?? [];
 }
 
-export function parseMarkdown(markdown: string, app: App): Promise<string> {
-  const div = document.createElement('div');
-  const activeView = app.workspace.getActiveViewOfType(MarkdownView);
+export function getHeadingsWithPseudo(file: TFile, app: App, text: string, settings: ISetting) {
+  const cache = app.metadataCache.getFileCache(file);
+  return mergePseudoHeadings(cache?.headings ?? [], getPseudoHeadings(cache, text, settings));
+}
 
-  if (!activeView) {
-    console.warn('No active markdown view is available.');
-    return Promise.resolve(markdown); // Return the original markdown if rendering is not possible
+// The title is rendered as a heading so that text like `1. Intro` is not parsed as a block.
+// Only the sanitized HTML is kept, so whatever the rendering loaded (embeds, for example) is unloaded right away.
+export async function renderHeadingTitle(markdown: string, app: App, sourcePath: string): Promise<HeadingTitle> {
+  const div = document.createElement('div');
+  const component = new Component();
+  component.load();
+  try {
+    await MarkdownRenderer.render(app, `# ${markdown}`, div, sourcePath, component);
+    const el = div.querySelector('h1') ?? div;
+    const html = sanitizeInline(el);
+    return { text: el.innerText.trim() || markdown, html };
+  } finally {
+    component.unload();
   }
-
-  return MarkdownRenderer.render(app, markdown, div, '', activeView).then(() => {
-    return div.innerText;
-  });
 }
 
 // used to check if we are in source mode AND NOT live preview
@@ -35,5 +46,17 @@ export const isEditMode = (view: MarkdownView) => view.currentMode.type !== 'pre
 export const getScroller = (view: MarkdownView) =>
   isEditMode(view) ? view.editor.cm.scrollDOM : view.previewMode.renderer.previewEl;
 
+// The sticky header is mirrored when the interface or the text of the note is right-to-left.
+export const getTextDirection = (view: MarkdownView): 'ltr' | 'rtl' => {
+  const textEl = isEditMode(view)
+    ? view.editor.cm.contentDOM
+    : view.previewMode.renderer.previewEl.querySelector('.markdown-preview-sizer');
+  if (uiDirection === 'rtl') {
+    return 'rtl';
+  }
+  const { win } = view.containerEl;
+  return [view.containerEl, textEl].some(el => el && win.getComputedStyle(el).direction === 'rtl') ? 'rtl' : 'ltr';
+};
+
 export const getContainerEl = (el: HTMLElement | Element) =>
   el.closest('.markdown-reading-view, .markdown-source-view')?.querySelector('.sticky-headings-root');
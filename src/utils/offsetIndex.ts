@@ -0,0 +1,55 @@
+import type { Heading, ISetting, OffsetIndex } from 'src/types';
+import { filterByLevel, isHeadingInView } from './getShownHeadings';
+
+export function createOffsetIndex(
+  headings: Heading[],
+  settings: ISetting,
+  scroller: HTMLElement,
+  editMode: boolean
+): OffsetIndex {
+  const filtered = filterByLevel(headings, settings.minLevel, settings.maxLevel);
+  return {
+    headings,
+    filtered,
+    offsets: filtered.map(heading => heading.offset),
+    hasEmbeds: filtered.some(heading => heading.embed),
+    viewportHeight: scroller.clientHeight,
+    scrollHeight: scroller.scrollHeight,
+    editMode,
+  };
+}
+
+// Offsets are measured against the layout, so they are outdated once the viewport or the content is resized.
+export function isOffsetIndexStale(index: OffsetIndex, scroller: HTMLElement, editMode: boolean) {
+  return (
+    index.editMode !== editMode
+    || index.viewportHeight !== scroller.clientHeight
+    || index.scrollHeight !== scroller.scrollHeight
+  );
+}
+
+// Returns the number of offsets lower than the position.
+export function bisectOffsets(offsets: number[], position: number) {
+  let low = 0;
+  let high = offsets.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (offsets[middle] < position) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Headings at or below the position, e.g. the bottom edge of the viewport.
+export function lookupUpcomingHeadings(index: OffsetIndex, position: number, count: number) {
+  const start = bisectOffsets(index.offsets, position);
+  return index.filtered.slice(start, start + count);
+}
+
+export function lookupHeadingsInView(index: OffsetIndex, position: number) {
+  const headings = index.filtered.slice(0, bisectOffsets(index.offsets, position));
+  return index.hasEmbeds ? headings.filter(heading => isHeadingInView(heading, position)) : headings;
+}
@@ -0,0 +1,59 @@
+import type { App, TFile } from 'obsidian';
+import { getAllTags } from 'obsidian';
+import type { IProfile, IProfileRule } from 'src/types';
+
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// `**` matches across folders, `*` and `?` stay inside a single path segment.
+export function globToRegExp(glob: string) {
+  const source = glob
+    .trim()
+    .replace(/^\/+|\/+$/g, '')
+    .split(/(\/?\*\*\/?|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**':
+          return '.*';
+        case '**/':
+          return '(?:.*/)?';
+        case '/**':
+          return '(?:/.*)?';
+        case '/**/':
+          return '/(?:.*/)?';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return escapeRegExp(part);
+      }
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').toLowerCase();
+
+export function matchRule(rule: IProfileRule, file: TFile, app: App) {
+  if (!rule.pattern.trim()) {
+    return false;
+  }
+  switch (rule.type) {
+    case 'folder':
+      // the vault root folder has the path `/`
+      return globToRegExp(rule.pattern).test((file.parent?.path ?? '').replace(/^\/$/, ''));
+    case 'name':
+      return globToRegExp(rule.pattern).test(file.basename);
+    case 'tag': {
+      const cache = app.metadataCache.getFileCache(file);
+      const expected = normalizeTag(rule.pattern);
+      return (cache ? getAllTags(cache) ?? [] : [])
+        .map(normalizeTag)
+        .some(tag => tag === expected || tag.startsWith(`${expected}/`));
+    }
+  }
+}
+
+export function findProfile(profiles: IProfile[], file: TFile, app: App) {
+  return profiles.find(profile => profile.rules.some(rule => matchRule(rule, file, app)));
+}
@@ -0,0 +1,55 @@
+import type { CachedMetadata, HeadingCache } from 'obsidian';
+import type { ISetting, PseudoHeadingCache } from 'src/types';
+
+const calloutRegex = /^>\s*\[!([^\]]+)\][+-]?[ \t]*(.*)$/;
+
+function getCalloutTitle(text: string, start: number) {
+  const end = text.indexOf('\n', start);
+  const match = calloutRegex.exec(text.slice(start, end === -1 ? undefined : end).trim());
+  if (!match) {
+    return null;
+  }
+  const [, type, title] = match;
+  return title.trim() || type.charAt(0).toUpperCase() + type.slice(1).toLowerCase();
+}
+
+export function getPseudoHeadings(cache: CachedMetadata | null, text: string, settings: ISetting) {
+  const result: PseudoHeadingCache[] = [];
+  if (!cache) {
+    return result;
+  }
+  const level = settings.pseudoHeadingLevel || 6;
+  if (settings.calloutHeadings) {
+    (cache.sections ?? [])
+      .filter(section => section.type === 'callout')
+      .forEach(({ position }) => {
+        const title = getCalloutTitle(text, position.start.offset);
+        if (title) {
+          result.push({ heading: title, level, position, source: 'callout' });
+        }
+      });
+  }
+  if (settings.blockHeadings) {
+    Object.values(cache.blocks ?? {}).forEach(({ id, position }) => {
+      result.push({ heading: `^${id}`, level, position, source: 'block' });
+    });
+  }
+  return result;
+}
+
+// Merge by position; a pseudo heading on a line that already holds a heading is dropped.
+export function mergePseudoHeadings(headings: HeadingCache[], pseudoHeadings: PseudoHeadingCache[]) {
+  if (!pseudoHeadings.length) {
+    return headings;
+  }
+  const lines = new Set<number>();
+  return [...headings, ...pseudoHeadings]
+    .sort((a, b) => a.position.start.offset - b.position.start.offset || Number('source' in a) - Number('source' in b))
+    .filter(({ position }) => {
+      if (lines.has(position.start.line)) {
+        return false;
+      }
+      lines.add(position.start.line);
+      return true;
+    });
+}
@@ -0,0 +1,169 @@
+import type { ChangeSpec, Text } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import type { HeadingCache } from 'obsidian';
+import type { Heading } from 'src/types';
+import { getParentIndexes } from './headingTree';
+
+export type RestructureAction = 'promote' | 'demote' | 'moveUp' | 'moveDown';
+
+interface SectionRange {
+  from: number;
+  to: number;
+}
+
+interface Restructure {
+  changes: ChangeSpec[];
+  // where the heading starts once the changes are applied
+  anchor: number;
+}
+
+function getSubtree(headings: HeadingCache[], position: number) {
+  const { level } = headings[position];
+  const end = headings.findIndex((heading, i) => i > position && heading.level <= level);
+  return headings.slice(position, end === -1 ? undefined : end);
+}
+
+function getSectionRange(headings: HeadingCache[], position: number, doc: Text): SectionRange {
+  const { level, position: { start } } = headings[position];
+  const next = headings.find((heading, i) => i > position && heading.level <= level);
+  return { from: start.offset, to: next ? next.position.start.offset : doc.length };
+}
+
+function getSibling(headings: HeadingCache[], position: number, direction: 1 | -1) {
+  const parentIndexes = getParentIndexes(headings);
+  const { level } = headings[position];
+  for (let i = position + direction; i >= 0 && i < headings.length; i += direction) {
+    if (headings[i].level < level) {
+      return -1;
+    }
+    if (headings[i].level === level && parentIndexes[i] === parentIndexes[position]) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Sections are swapped as text, the last section of the note may not end with a line break.
+function swapSections(doc: Text, first: SectionRange, second: SectionRange) {
+  let firstText = doc.sliceString(first.from, first.to);
+  let secondText = doc.sliceString(second.from, second.to);
+  if (!secondText.endsWith('\n')) {
+    secondText += '\n';
+    firstText = firstText.replace(/\n$/, '');
+  }
+  return {
+    change: { from: first.from, to: second.to, insert: secondText + firstText },
+    firstStart: first.from + secondText.length,
+    secondStart: first.from,
+  };
+}
+
+// ATX headings only, setext headings (underlined with = or -) have no level markers to change.
+const isAtxHeading = (doc: Text, heading: HeadingCache) =>
+  doc.sliceString(heading.position.start.offset, heading.position.start.offset + heading.level)
+  === '#'.repeat(heading.level);
+
+// The metadata cache is only refreshed once the note is saved, so after a first change the offsets may be stale.
+// A heading is only trusted if its line in the editor still starts at its offset and reads the same.
+function isHeadingInDoc(doc: Text, heading: HeadingCache) {
+  const { offset } = heading.position.start;
+  if (offset > doc.length) {
+    return false;
+  }
+  const line = doc.lineAt(offset);
+  if (line.from !== offset) {
+    return false;
+  }
+  const text = line.text.trimEnd();
+  if (text === `${'#'.repeat(heading.level)} ${heading.heading}`) {
+    return true;
+  }
+  // setext headings are underlined with `=` (H1) or `-` (H2) on the next line
+  const underline = line.number < doc.lines ? doc.line(line.number + 1).text.trim() : '';
+  return text === heading.heading && new RegExp(`^${heading.level === 1 ? '=' : '-'}+$`).test(underline);
+}
+
+function getSectionEndHeading(headings: HeadingCache[], position: number) {
+  const { level } = headings[position];
+  return headings.find((heading, i) => i > position && heading.level <= level);
+}
+
+// Both sections and the heading that ends the second one must still be where the cache says.
+const isSwapInDoc = (headings: HeadingCache[], first: number, second: number, doc: Text) =>
+  [headings[first], headings[second], getSectionEndHeading(headings, second)].every(
+    heading => !heading || isHeadingInDoc(doc, heading)
+  );
+
+// `headings` are the headings of the metadata cache, folded ones included, so a subtree is never cut short.
+export function getRestructure(
+  headings: HeadingCache[],
+  heading: Heading,
+  action: RestructureAction,
+  doc: Text
+): Restructure | null {
+  // only Markdown headings of the note itself can be restructured
+  if (heading.source || heading.embed) {
+    return null;
+  }
+  const position = headings.findIndex(item => item.position.start.offset === heading.position.start.offset);
+  if (position === -1 || heading.position.end.offset > doc.length) {
+    return null;
+  }
+  switch (action) {
+    case 'promote':
+    case 'demote': {
+      const subtree = getSubtree(headings, position);
+      const canChange = subtree.every(
+        item =>
+          isHeadingInDoc(doc, item)
+          && isAtxHeading(doc, item)
+          && (action === 'promote' ? item.level > 1 : item.level < 6)
+      );
+      if (!canChange) {
+        return null;
+      }
+      return {
+        changes: subtree.map(({ position: { start } }) =>
+          action === 'promote'
+            ? { from: start.offset, to: start.offset + 1 }
+            : { from: start.offset, insert: '#' }
+        ),
+        anchor: heading.position.start.offset,
+      };
+    }
+    case 'moveUp': {
+      const sibling = getSibling(headings, position, -1);
+      if (sibling === -1 || !isSwapInDoc(headings, sibling, position, doc)) {
+        return null;
+      }
+      const { change, secondStart } = swapSections(
+        doc,
+        getSectionRange(headings, sibling, doc),
+        getSectionRange(headings, position, doc)
+      );
+      return { changes: [change], anchor: secondStart };
+    }
+    case 'moveDown': {
+      const sibling = getSibling(headings, position, 1);
+      if (sibling === -1 || !isSwapInDoc(headings, position, sibling, doc)) {
+        return null;
+      }
+      const { change, firstStart } = swapSections(
+        doc,
+        getSectionRange(headings, position, doc),
+        getSectionRange(headings, sibling, doc)
+      );
+      return { changes: [change], anchor: firstStart };
+    }
+  }
+}
+
+// Changes, cursor and scroll position are applied as one transaction, so a single undo reverts them.
+export function applyRestructure(cm: EditorView, restructure: Restructure, margin: number) {
+  cm.dispatch({
+    changes: restructure.changes,
+    selection: { anchor: restructure.anchor },
+    effects: EditorView.scrollIntoView(restructure.anchor, { y: 'start', yMargin: margin }),
+    userEvent: 'move.section',
+  });
+}
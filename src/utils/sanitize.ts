@@ -0,0 +1,49 @@
+const allowedTags = new Set([
+  'a',
+  'b',
+  'br',
+  'code',
+  'del',
+  'em',
+  'i',
+  'kbd',
+  'mark',
+  's',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'u',
+]);
+
+const allowedAttributes = new Set(['class', 'href', 'data-href', 'aria-label', 'aria-hidden']);
+
+// MathJax renders formulas with custom `mjx-*` elements which are sized through inline styles.
+const isMathElement = (el: Element) => el.tagName.toLowerCase().startsWith('mjx-');
+
+function sanitizeElement(el: Element) {
+  Array.from(el.children).forEach(child => {
+    const tag = child.tagName.toLowerCase();
+    if (isMathElement(child) || allowedTags.has(tag)) {
+      Array.from(child.attributes).forEach(({ name, value }) => {
+        const allowed = allowedAttributes.has(name) || (name === 'style' && isMathElement(child));
+        if (!allowed || (name === 'href' && /^\s*javascript:/i.test(value))) {
+          child.removeAttribute(name);
+        }
+      });
+      sanitizeElement(child);
+    } else if (['script', 'style', 'iframe', 'object', 'embed', 'img', 'video', 'audio'].includes(tag)) {
+      child.remove();
+    } else {
+      // unknown and block level elements are unwrapped to keep the title inline
+      sanitizeElement(child);
+      child.replaceWith(...Array.from(child.childNodes));
+    }
+  });
+}
+
+export function sanitizeInline(el: HTMLElement) {
+  el.querySelectorAll('.heading-collapse-indicator').forEach(indicator => indicator.remove());
+  sanitizeElement(el);
+  return el.innerHTML;
+}
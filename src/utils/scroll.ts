@@ -1,31 +1,73 @@
+import type { ISetting } from 'src/types';
+
+export const easings: Record<ISetting['scrollEasing'], (t: number) => number> = {
+  linear: t => t,
+  easeOutCubic: t => 1 - (1 - t) ** 3,
+  easeInOutCubic: t => (t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2),
+  easeOutQuint: t => 1 - (1 - t) ** 5,
+  easeInOutSine: t => -(Math.cos(Math.PI * t) - 1) / 2,
+};
+
+// The duration grows with the square root of the distance, so long jumps don't drag on.
+export function getScrollDuration(distance: number, min: number, max: number) {
+  return Math.min(Math.max(40 * Math.sqrt(Math.abs(distance)), min), Math.max(min, max));
+}
+
+const scrollKeys = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'PageUp', 'PageDown', 'Home', 'End', ' '];
+
+export const prefersReducedMotion = (el: HTMLElement) => el.win.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+// The animation is cancelled as soon as the user scrolls with the wheel, touch or keys.
 export function animateScroll(
   target: HTMLElement,
   to: number,
   duration: number,
   easing: (t: number) => number = t => t,
   onUpdate: (t: number) => void = () => {},
-  onComplete: (...arg: unknown[]) => void = () => {}
+  onComplete: (...arg: unknown[]) => void = () => {},
+  onCancel: () => void = () => {}
 ) {
+  const from = target.scrollTop;
+  const controller = new AbortController();
   let start: number;
   let animationFrame: number;
 
+  const stop = () => {
+    cancelAnimationFrame(animationFrame);
+    controller.abort();
+  };
+
+  const cancel = () => {
+    stop();
+    onCancel();
+  };
+
+  // Only keys that scroll the pane of the scroller cancel, typing or keys in other panes don't.
+  const pane = target.closest('.workspace-leaf-content') ?? target;
+  const cancelOnKey = (e: KeyboardEvent) => {
+    if (scrollKeys.includes(e.key) && pane.contains(e.target as Node | null)) {
+      cancel();
+    }
+  };
+
   function step(timestamp: number) {
     if (!start) start = timestamp;
-    const progress = Math.min((timestamp - start) / duration, 1);
+    const progress = duration > 0 ? Math.min((timestamp - start) / duration, 1) : 1;
     const ease = easing(progress);
-    const scrollTop = target.scrollTop + (to - target.scrollTop) * ease;
-    target.scrollTop = scrollTop;
+    target.scrollTop = from + (to - from) * ease;
     onUpdate(ease);
     if (progress < 1) {
       animationFrame = requestAnimationFrame(step);
     } else {
+      stop();
       onComplete();
     }
   }
 
+  target.addEventListener('wheel', cancel, { passive: true, signal: controller.signal });
+  target.addEventListener('touchstart', cancel, { passive: true, signal: controller.signal });
+  target.doc.addEventListener('keydown', cancelOnKey, { signal: controller.signal });
   animationFrame = requestAnimationFrame(step);
 
-  return () => {
-    cancelAnimationFrame(animationFrame);
-  };
+  return cancel;
 }
@@ -0,0 +1,81 @@
+import { foldable, foldEffect, foldedRanges, unfoldEffect } from '@codemirror/language';
+import type { EditorView } from '@codemirror/view';
+import type { App, MarkdownView, TFile } from 'obsidian';
+import type { Heading } from 'src/types';
+
+// Obsidian drops these characters from headings when linking to them.
+const stripHeading = (heading: string) =>
+  heading
+    .replace(/([:#|^\\\r\n]|%%|\[\[|]])/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export function getHeadingLink(app: App, file: TFile, heading: Heading) {
+  const linktext = app.metadataCache.fileToLinktext(file, '', true);
+  if (heading.source === 'block') {
+    return `[[${linktext}#${heading.heading}]]`;
+  }
+  return `[[${linktext}#${stripHeading(heading.heading)}]]`;
+}
+
+// A section ends before the next Markdown heading of the same or a higher level.
+export function getSectionRange(headings: Heading[], heading: Heading, text: string) {
+  const { start, end } = heading.position;
+  if (heading.source) {
+    return { from: start.offset, to: end.offset };
+  }
+  const next = headings.find(
+    item => item.index > heading.index && !item.source && !item.embed && item.level <= heading.level
+  );
+  const to = next ? next.position.start.offset : text.length;
+  return { from: start.offset, to: text[to - 1] === '\n' ? to - 1 : to };
+}
+
+export function getFoldRange(cm: EditorView, heading: Heading) {
+  const line = cm.state.doc.lineAt(heading.position.start.offset);
+  return foldable(cm.state, line.from, line.to);
+}
+
+export function isFolded(cm: EditorView, heading: Heading) {
+  const range = getFoldRange(cm, heading);
+  let folded = false;
+  if (range) {
+    foldedRanges(cm.state).between(range.from, range.from, from => {
+      if (from === range.from) folded = true;
+    });
+  }
+  return folded;
+}
+
+export function toggleFold(cm: EditorView, heading: Heading) {
+  const range = getFoldRange(cm, heading);
+  if (range) {
+    cm.dispatch({ effects: (isFolded(cm, heading) ? unfoldEffect : foldEffect).of(range) });
+  }
+}
+
+export function foldHeadings(cm: EditorView, headings: Heading[]) {
+  const effects = headings
+    .filter(heading => !isFolded(cm, heading))
+    .map(heading => getFoldRange(cm, heading))
+    .filter(range => !!range)
+    .map(range => foldEffect.of(range));
+  if (effects.length) {
+    cm.dispatch({ effects });
+  }
+}
+
+export function selectSection(view: MarkdownView, from: number, to: number) {
+  const { editor } = view;
+  editor.setSelection(editor.offsetToPos(from), editor.offsetToPos(to));
+  editor.focus();
+}
+
+// Headings inside a folded range are hidden, so they can't be part of the sticky stack.
+export function isInFoldedRange(cm: EditorView, offset: number) {
+  let folded = false;
+  foldedRanges(cm.state).between(offset, offset, (from, to) => {
+    if (from < offset && offset <= to) folded = true;
+  });
+  return folded;
+}
@@ -0,0 +1,33 @@
+import type { Heading, ISetting } from 'src/types';
+
+// Numbers follow the outline depth rather than the raw level, so `## A` followed by `#### B` is numbered 1 and 1.1.
+export function getSectionNumbers(headings: Heading[], settings: ISetting) {
+  const { numberingStartLevel, numberingSeparator, numberingSkipH1 } = settings;
+  const result = new Map<number, string>();
+  const levels: number[] = [];
+  const counters: number[] = [];
+  headings.forEach(heading => {
+    // Callouts, blocks and embedded notes are not part of the outline of the note.
+    if (heading.source || heading.embed || (numberingSkipH1 && heading.level === 1)) {
+      return;
+    }
+    // A heading above the start level begins a new chapter and restarts the numbering.
+    if (heading.level < numberingStartLevel) {
+      levels.length = 0;
+      counters.length = 0;
+      return;
+    }
+    while (levels.length && levels[levels.length - 1] > heading.level) {
+      levels.pop();
+      counters.pop();
+    }
+    if (levels.length && levels[levels.length - 1] === heading.level) {
+      counters[counters.length - 1]++;
+    } else {
+      levels.push(heading.level);
+      counters.push(1);
+    }
+    result.set(heading.index, counters.join(numberingSeparator));
+  });
+  return result;
+}
@@ -0,0 +1,161 @@
+import L from 'src/i18n';
+import type { ICustomTheme, IPluginSetting, IProfileRule, ThemeOption } from 'src/types';
+import { easings } from './scroll';
+import { reservedThemes } from './themes';
+
+export type SettingsData = Record<string, unknown>;
+
+export type SettingErrors = Partial<Record<keyof IPluginSetting, string>>;
+
+export type ThemeErrors = Partial<Record<keyof ICustomTheme, string>>;
+
+type Rule = (value: unknown, values: SettingsData, themes?: ThemeOption[]) => string | null;
+
+// `migrations[n]` turns settings saved with version n into version n + 1.
+const migrations: ((data: SettingsData) => SettingsData)[] = [
+  // Settings saved before the schema was versioned only lack the fields added since, they get the defaults.
+  data => data,
+];
+
+export const settingsVersion = migrations.length;
+
+export const isRecord = (value: unknown): value is SettingsData =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Settings of a newer version are kept as they are, unknown fields are dropped later on.
+export function migrateSettings(data: SettingsData) {
+  const version = typeof data.version === 'number' ? data.version : 0;
+  return migrations
+    .slice(version)
+    .reduce((result, migrate, i) => ({ ...migrate(result), version: version + i + 1 }), data);
+}
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isBelow = (value: unknown, other: unknown) =>
+  typeof value === 'number' && typeof other === 'number' && value < other;
+
+export const isCustomTheme = (theme: unknown): theme is ICustomTheme =>
+  isRecord(theme)
+  && typeof theme.name === 'string'
+  && Array.isArray(theme.colors)
+  && theme.colors.every(color => typeof color === 'string')
+  && [theme.fontSize, theme.padding, theme.radius].every(isCount)
+  && ['solid', 'blur', 'transparent'].includes(theme.background as string);
+
+const isCustomThemeName = (name: string, values: SettingsData, themes?: ThemeOption[]) =>
+  (Array.isArray(values.customThemes) && values.customThemes.some(theme => isCustomTheme(theme) && theme.name === name))
+  || !!themes?.some(option => option.source === 'custom' && option.name === name);
+
+const count = (value: unknown) => (isCount(value) ? null : L.setting.errors.count());
+const level = (value: unknown) => (isCount(value) && value >= 1 && value <= 6 ? null : L.setting.errors.level());
+const flag = (value: unknown) => (typeof value === 'boolean' ? null : L.setting.errors.invalid());
+const text = (value: unknown) => (typeof value === 'string' ? null : L.setting.errors.invalid());
+const list = (value: unknown) => (Array.isArray(value) ? null : L.setting.errors.invalid());
+const oneOf = (options: string[]) => (value: unknown) =>
+  options.includes(value as string) ? null : L.setting.errors.invalid();
+
+// Range rules fail on both ends, so neither end is kept alone when the other one is replaced.
+const rules: Record<Exclude<keyof IPluginSetting, 'version'>, Rule> = {
+  max: count,
+  mode: oneOf(['default', 'concise']),
+  // Custom themes are looked up by name, built-in and snippet themes become a class name.
+  // Snippet themes are only looked up when the available themes are known.
+  theme: (value, values, themes) => {
+    if (typeof value !== 'string') {
+      return L.setting.errors.invalid();
+    }
+    if (isCustomThemeName(value, values, themes)) {
+      return null;
+    }
+    if (!/^[\w-]+$/.test(value)) {
+      return L.setting.errors.themeName();
+    }
+    if (themes && !themes.some(({ name }) => name === value)) {
+      return L.setting.errors.themeNotFound({ name: value });
+    }
+    return null;
+  },
+  scrollBehaviour: oneOf(['smooth', 'instant']),
+  scrollEasing: oneOf(Object.keys(easings)),
+  scrollDurationMin: (value, values) =>
+    count(value) ?? (isBelow(values.scrollDurationMax, value) ? L.setting.errors.durationRange() : null),
+  scrollDurationMax: (value, values) =>
+    count(value) ?? (isBelow(value, values.scrollDurationMin) ? L.setting.errors.durationRange() : null),
+  layout: oneOf(['stack', 'breadcrumb']),
+  minLevel: (value, values) =>
+    level(value) ?? (isBelow(values.maxLevel, value) ? L.setting.errors.levelRange() : null),
+  maxLevel: (value, values) =>
+    level(value) ?? (isBelow(value, values.minLevel) ? L.setting.errors.levelRange() : null),
+  calloutHeadings: flag,
+  blockHeadings: flag,
+  pseudoHeadingLevel: level,
+  progress: oneOf(['none', 'section', 'document', 'both']),
+  upNext: count,
+  numbering: flag,
+  numberingStartLevel: level,
+  numberingSeparator: text,
+  numberingSkipH1: flag,
+  autoHideSource: oneOf(['off', 'scroll', 'typing', 'both']),
+  autoHideReading: flag,
+  autoHideDelay: count,
+  linkedSections: flag,
+  profiles: list,
+  customThemes: list,
+  statusBar: flag,
+  statusBarSeparator: text,
+  statusBarDepth: count,
+  tabTitle: flag,
+  tabTitleFormat: value =>
+    text(value)
+    ?? ((value as string).includes('{heading}') ? null : L.setting.errors.placeholder({ placeholder: '{heading}' })),
+};
+
+// Only the fields present in `values` are checked, so it works for profile settings as well.
+export function getSettingErrors(values: object, themes?: ThemeOption[]) {
+  const data = values as SettingsData;
+  const errors: SettingErrors = {};
+  (Object.keys(rules) as (keyof typeof rules)[]).forEach(key => {
+    if (key in data) {
+      const error = rules[key](data[key], data, themes);
+      if (error) {
+        errors[key] = error;
+      }
+    }
+  });
+  return errors;
+}
+
+// Fields that are missing or invalid keep the value of `defaults`, fields unknown to `defaults` are dropped.
+// `context` only helps checking the fields, such as the custom themes for the theme of a profile.
+export function getValidFields<T extends object>(values: SettingsData, defaults: T, context: SettingsData = {}) {
+  const errors = getSettingErrors({ ...context, ...values });
+  const result = { ...defaults };
+  (Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+    if (key in values && !(key in errors)) {
+      result[key] = values[key] as T[keyof T & string];
+    }
+  });
+  return result;
+}
+
+// `otherNames` are the names of the other custom themes, the edited one may keep its own name.
+export function getThemeErrors(theme: ICustomTheme, otherNames: string[]) {
+  const errors: ThemeErrors = {};
+  if (!theme.name.trim()) {
+    errors.name = L.setting.errors.themeNameEmpty();
+  } else if (reservedThemes.includes(theme.name)) {
+    errors.name = L.setting.errors.themeNameReserved({ name: theme.name });
+  } else if (otherNames.includes(theme.name)) {
+    errors.name = L.setting.errors.themeNameTaken();
+  }
+  (['fontSize', 'padding', 'radius'] as const).forEach(key => {
+    const error = count(theme[key]);
+    if (error) {
+      errors[key] = error;
+    }
+  });
+  return errors;
+}
+
+export const isProfileRule = (rule: unknown): rule is IProfileRule =>
+  isRecord(rule) && ['folder', 'tag', 'name'].includes(rule.type as string) && typeof rule.pattern === 'string';
@@ -0,0 +1,67 @@
+import type { ICustomTheme, ThemeOption } from 'src/types';
+
+export const builtinThemes = ['flat', 'blur', 'float'];
+
+// `custom` is the class shared by all custom themes, so a snippet can't claim it.
+export const reservedThemes = [...builtinThemes, 'custom'];
+
+const themeClassRegex = /\.sticky-headings-theme-([\w-]+)/g;
+
+function collectThemeClasses(rules: CSSRuleList, names: Set<string>) {
+  Array.from(rules).forEach(rule => {
+    if (rule instanceof CSSStyleRule) {
+      themeClassRegex.lastIndex = 0;
+      let match = themeClassRegex.exec(rule.selectorText);
+      while (match) {
+        names.add(match[1]);
+        match = themeClassRegex.exec(rule.selectorText);
+      }
+    } else if (rule instanceof CSSGroupingRule) {
+      collectThemeClasses(rule.cssRules, names);
+    }
+  });
+}
+
+// A CSS snippet declares a theme by styling `.sticky-headings-theme-<name>`.
+export function getSnippetThemes(doc: Document) {
+  const names = new Set<string>();
+  Array.from(doc.styleSheets).forEach(sheet => {
+    try {
+      collectThemeClasses(sheet.cssRules, names);
+    } catch {
+      // the rules of cross-origin style sheets can't be read
+    }
+  });
+  return Array.from(names).filter(name => !reservedThemes.includes(name));
+}
+
+export function getThemeOptions(customThemes: ICustomTheme[], doc: Document): ThemeOption[] {
+  const result: ThemeOption[] = builtinThemes.map(name => ({ name, source: 'builtin' }));
+  customThemes.forEach(({ name }) => {
+    if (!result.some(option => option.name === name)) {
+      result.push({ name, source: 'custom' });
+    }
+  });
+  getSnippetThemes(doc).forEach(name => {
+    if (!result.some(option => option.name === name)) {
+      result.push({ name, source: 'snippet' });
+    }
+  });
+  return result;
+}
+
+// Built-in themes can't be overridden by a custom theme with the same name.
+export function findCustomTheme(customThemes: ICustomTheme[], name: string) {
+  return builtinThemes.includes(name) ? undefined : customThemes.find(theme => theme.name === name);
+}
+
+export function getCustomThemeStyle(theme: ICustomTheme) {
+  return [
+    `--sticky-header-custom-font-size: ${theme.fontSize}px`,
+    `--sticky-header-custom-padding: ${theme.padding}px`,
+    `--sticky-header-custom-radius: ${theme.radius}px`,
+    ...theme.colors.map((color, i) => (color ? `--sticky-header-custom-color-${i + 1}: ${color}` : '')),
+  ]
+    .filter(Boolean)
+    .join('; ');
+}